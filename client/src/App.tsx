@@ -3,7 +3,10 @@ import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 import Settings from "@/pages/settings";
 import GPTBypassPage from "@/pages/gpt-bypass";
-import { Settings as SettingsIcon, Zap } from "lucide-react";
+import Library from "@/pages/library";
+import History from "@/pages/history";
+import { Settings as SettingsIcon, Zap, Library as LibraryIcon, History as HistoryIcon } from "lucide-react";
+import { SearchBox } from "@/components/layout/SearchBox";
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 
 function App() {
@@ -14,7 +17,8 @@ function App() {
           <Link href="/" className="text-2xl font-bold">
             EZ Reader
           </Link>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            <SearchBox />
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -24,6 +28,22 @@ function App() {
                 </TooltipTrigger>
                 <TooltipContent>GPT Bypass</TooltipContent>
               </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/library" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+                    <LibraryIcon className="h-5 w-5" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>Document Library</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Link href="/history" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
+                    <HistoryIcon className="h-5 w-5" />
+                  </Link>
+                </TooltipTrigger>
+                <TooltipContent>Job History</TooltipContent>
+              </Tooltip>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Link href="/settings" className="p-2 rounded-full hover:bg-slate-100 transition-colors">
@@ -41,6 +61,8 @@ function App() {
         <Switch>
           <Route path="/" component={Home} />
           <Route path="/gpt-bypass" component={GPTBypassPage} />
+          <Route path="/library" component={Library} />
+          <Route path="/history" component={History} />
           <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
@@ -30,7 +30,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface ChunkSelectorProps {
   chunks: string[];
-  onProcessSelected: (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number) => void;
+  onProcessSelected: (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number, rollingContext?: boolean) => void;
   onCancel: () => void;
 }
 
@@ -59,6 +59,7 @@ export function ChunkSelector({
   const [rangeStart, setRangeStart] = useState<number | null>(null);
   const [processingMode, setProcessingMode] = useState<'rewrite' | 'add' | 'both'>('rewrite');
   const [additionalChunks, setAdditionalChunks] = useState<number>(1);
+  const [rollingContext, setRollingContext] = useState(false);
   
   // Filter chunks based on search term
   const filteredChunks = useMemo(() => {
@@ -230,11 +231,11 @@ export function ChunkSelector({
   const handleProcessSelected = () => {
     if (processingMode === 'add' || (processingMode === 'both' && selectedChunks.length === 0)) {
       // For add mode, we don't need selected chunks
-      onProcessSelected(selectedChunks, processingMode, additionalChunks);
+      onProcessSelected(selectedChunks, processingMode, additionalChunks, rollingContext);
     } else if (selectedChunks.length === 0) {
       return; // Don't process if nothing is selected for rewrite mode
     } else {
-      onProcessSelected(selectedChunks, processingMode, additionalChunks);
+      onProcessSelected(selectedChunks, processingMode, additionalChunks, rollingContext);
     }
   };
 
@@ -334,6 +335,21 @@ export function ChunkSelector({
               </Select>
             </div>
           )}
+          
+          {/* Rolling context only applies when chunks are rewritten */}
+          {processingMode !== 'add' && (
+            <div className="mt-3 flex items-center space-x-2">
+              <Checkbox
+                id="rolling-context"
+                checked={rollingContext}
+                onCheckedChange={(checked) => setRollingContext(checked === true)}
+                data-testid="checkbox-rolling-context"
+              />
+              <label htmlFor="rolling-context" className="text-sm">
+                Carry context between chunks (summary, previous ending and defined terms) for consistent terminology and tense
+              </label>
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-4">
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoaderIcon, Plus, X } from 'lucide-react';
+import { getModelCatalog } from '@shared/models';
+import { compareProviders } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { MathRenderer } from './MathRenderer';
+import type { CompareResult, CompareTarget, GenerationSettings, LLMProvider } from '@/types';
+
+const DEFAULT_MODEL = 'default';
+const MIN_TARGETS = 2;
+const MAX_TARGETS = 4;
+
+const PROVIDER_LABELS: Array<{ value: LLMProvider; label: string }> = [
+  { value: 'anthropic', label: 'ZHI 1' },
+  { value: 'openai', label: 'ZHI 2' },
+  { value: 'deepseek', label: 'ZHI 3' },
+  { value: 'perplexity', label: 'ZHI 4' },
+  { value: 'custom', label: 'Custom endpoint' },
+  ...(import.meta.env.DEV ? [{ value: 'mock' as const, label: 'Mock (offline)' }] : []),
+];
+
+// Tailwind needs the full class names to be present in the source
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+function providerLabel(provider: string): string {
+  return PROVIDER_LABELS.find(option => option.value === provider)?.label ?? provider;
+}
+
+function formatCost(result: CompareResult): string {
+  if (!result.usage) return '-';
+  if (result.usage.calls === 0) return '$0 (cached)';
+  if (result.usage.unpricedCalls === result.usage.calls) return 'n/a';
+  const cost = result.usage.estimatedCost;
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+interface ComparePanelProps {
+  inputText: string;
+  instructions: string;
+  contentSource: string;
+  useContentSource: boolean;
+  styleSource: string;
+  useStyleSource: boolean;
+  // Temperature and max tokens apply to every column; models are picked per column
+  generationSettings: GenerationSettings;
+  onPromote: (text: string) => void;
+}
+
+// Compare mode: runs the same input and instructions on two to four providers
+// or models at once and shows the outputs side by side, with word count,
+// latency and estimated cost. Any result can be promoted to the output editor.
+export function ComparePanel({
+  inputText,
+  instructions,
+  contentSource,
+  useContentSource,
+  styleSource,
+  useStyleSource,
+  generationSettings,
+  onPromote
+}: ComparePanelProps) {
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<CompareTarget[]>([{ provider: 'anthropic' }, { provider: 'openai' }]);
+  const [results, setResults] = useState<CompareResult[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const updateTarget = (index: number, target: CompareTarget) => {
+    setTargets(prev => prev.map((current, i) => (i === index ? target : current)));
+  };
+
+  const handleCompare = async () => {
+    if (!inputText.trim()) {
+      toast({ title: "Nothing to compare", description: "Enter some input text first.", variant: "destructive" });
+      return;
+    }
+
+    setIsComparing(true);
+    try {
+      const data = await compareProviders({
+        inputText,
+        instructions,
+        contentSource,
+        useContentSource,
+        styleSource,
+        useStyleSource,
+        temperature: generationSettings.temperature,
+        maxTokens: generationSettings.maxTokens,
+        noCache: generationSettings.noCache,
+        targets
+      });
+      setResults(data.results);
+    } catch (error: any) {
+      console.error('Error comparing providers:', error);
+      toast({
+        title: "Comparison failed",
+        description: error?.message || 'Unknown error occurred',
+        variant: "destructive"
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handlePromote = (result: CompareResult) => {
+    if (!result.result) return;
+    onPromote(result.result);
+    toast({
+      title: "Result copied to output",
+      description: `Using the ${providerLabel(result.provider)}${result.model ? ` (${result.model})` : ''} version.`
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Compare Providers</CardTitle>
+        <CardDescription>
+          Send the same input and instructions to {MIN_TARGETS}-{MAX_TARGETS} providers or models in parallel and compare the results.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={`grid grid-cols-1 gap-4 ${GRID_COLUMNS[targets.length]}`}>
+          {targets.map((target, index) => {
+            const catalog = getModelCatalog(target.provider);
+            return (
+              <div key={index} className="space-y-2 p-3 border rounded-lg" data-testid={`compare-target-${index}`}>
+                <div className="flex items-center justify-between">
+                  <Label>Column {index + 1}</Label>
+                  {targets.length > MIN_TARGETS && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isComparing}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <Select
+                  value={target.provider}
+                  onValueChange={(value) => updateTarget(index, { provider: value as LLMProvider })}
+                  disabled={isComparing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROVIDER_LABELS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {catalog && (
+                  <Select
+                    value={target.model || DEFAULT_MODEL}
+                    onValueChange={(value) => updateTarget(index, { ...target, model: value === DEFAULT_MODEL ? undefined : value })}
+                    disabled={isComparing}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Provider default" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_MODEL}>Provider default</SelectItem>
+                      {catalog.models.map(model => (
+                        <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleCompare} disabled={isComparing} data-testid="button-compare">
+            {isComparing ? (
+              <>
+                <LoaderIcon className="mr-2 h-4 w-4 animate-spin" />
+                Comparing...
+              </>
+            ) : (
+              `Compare ${targets.length} results`
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setTargets(prev => [...prev, { provider: 'deepseek' }])}
+            disabled={isComparing || targets.length >= MAX_TARGETS}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add column
+          </Button>
+        </div>
+
+        {results.length > 0 && (
+          <div className={`grid grid-cols-1 gap-4 ${GRID_COLUMNS[results.length]}`}>
+            {results.map((result, index) => (
+              <div key={index} className="flex flex-col border rounded-lg" data-testid={`compare-result-${index}`}>
+                <div className="p-3 border-b bg-slate-50 dark:bg-slate-900">
+                  <div className="font-medium text-sm">
+                    {providerLabel(result.provider)}
+                    {result.model && <span className="ml-1 font-mono text-xs text-slate-500">{result.model}</span>}
+                  </div>
+                  <div className="mt-1 flex gap-3 text-xs text-slate-500">
+                    <span>{result.wordCount ?? 0} words</span>
+                    <span>{(result.latencyMs / 1000).toFixed(1)}s</span>
+                    <span>{formatCost(result)}</span>
+                  </div>
+                </div>
+                <div className="flex-1 p-3 max-h-[500px] overflow-y-auto">
+                  {result.error ? (
+                    <p className="text-sm text-red-500">{result.error}</p>
+                  ) : (
+                    <MathRenderer content={result.result || ''} className="text-sm" />
+                  )}
+                  {result.chunkErrors && result.chunkErrors.length > 0 && (
+                    <p className="mt-2 text-xs text-amber-600">
+                      {result.chunkErrors.length} section{result.chunkErrors.length !== 1 ? 's' : ''} could not be processed
+                    </p>
+                  )}
+                </div>
+                <div className="p-3 border-t">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => handlePromote(result)}
+                    disabled={!result.result}
+                  >
+                    Use this result
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -279,7 +279,7 @@ export function DialogueBox({
                   >
                     {message.role === 'assistant' ? (
                       <div className="space-y-3">
-                        <MathRenderer content={message.content} className="text-sm bg-transparent border-0 p-0" />
+                        <MathRenderer content={message.content} streaming={message.streaming} className="text-sm bg-transparent border-0 p-0" />
                         {onSendToInput && (
                           <div className="flex justify-end">
                             <Button
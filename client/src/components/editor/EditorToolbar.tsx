@@ -8,6 +8,8 @@ import { useToast } from '@/hooks/use-toast';
 import { Trash2Icon, SaveIcon, LoaderIcon } from 'lucide-react';
 import { getSavedInstructions, saveInstructions, deleteSavedInstructions } from '@/lib/queryClient';
 import { VoiceInput } from '@/components/ui/voice-input';
+import { ModelSelector } from './ModelSelector';
+import type { GenerationSettings } from '@/types';
 
 interface SavedInstruction {
   id: number;
@@ -26,6 +28,8 @@ interface EditorToolbarProps {
   isProcessing: boolean;
   llmProvider: string;
   setLLMProvider: (provider: string) => void;
+  generationSettings?: GenerationSettings;
+  setGenerationSettings?: (settings: GenerationSettings) => void;
   onInstructionsSelect: (instructions: string) => void;
   currentInstructions: string;
   enableSynthesisMode?: boolean;
@@ -45,6 +49,8 @@ export function EditorToolbar({
   isProcessing,
   llmProvider,
   setLLMProvider,
+  generationSettings,
+  setGenerationSettings,
   onInstructionsSelect,
   currentInstructions,
   enableSynthesisMode = false,
@@ -154,12 +160,24 @@ export function EditorToolbar({
               <SelectItem value="openai">ZHI 2</SelectItem>
               <SelectItem value="deepseek">ZHI 3</SelectItem>
               <SelectItem value="perplexity">ZHI 4</SelectItem>
+              <SelectItem value="custom">Custom endpoint</SelectItem>
+              {import.meta.env.DEV && <SelectItem value="mock">Mock (offline)</SelectItem>}
               <SelectItem value="azure">Azure OpenAI</SelectItem>
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      {/* Model and sampling overrides for the selected provider */}
+      {generationSettings && setGenerationSettings && (
+        <ModelSelector
+          provider={llmProvider}
+          settings={generationSettings}
+          onChange={setGenerationSettings}
+          disabled={isProcessing}
+        />
+      )}
+
       {/* Synthesis Mode Toggle */}
       {setEnableSynthesisMode && (
         <div className="flex items-center space-x-2">
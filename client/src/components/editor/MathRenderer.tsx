@@ -3,11 +3,23 @@ import { useEffect, useRef, useState } from 'react';
 interface MathRendererProps {
   content: string;
   className?: string;
+  // Content is still arriving: only typeset paragraphs that have closed
+  streaming?: boolean;
 }
 
-export function MathRenderer({ content, className = "" }: MathRendererProps) {
+// Split streamed content at the last paragraph break. Math in the open
+// paragraph may be half-written, so it is shown as plain text until it closes.
+function splitOpenParagraph(content: string, streaming: boolean): [string, string] {
+  if (!streaming) return [content, ''];
+  const lastBreak = content.lastIndexOf('\n\n');
+  if (lastBreak === -1) return ['', content];
+  return [content.slice(0, lastBreak), content.slice(lastBreak + 2)];
+}
+
+export function MathRenderer({ content, className = "", streaming = false }: MathRendererProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isReady, setIsReady] = useState(false);
+  const [closedContent, openParagraph] = splitOpenParagraph(content, streaming);
 
   useEffect(() => {
     // Check if MathJax is loaded
@@ -148,7 +160,7 @@ export function MathRenderer({ content, className = "" }: MathRendererProps) {
     if (!isReady || !containerRef.current || !window.MathJax) return;
 
     // Process the content to ensure proper LaTeX formatting
-    const processedContent = processContent(content);
+    const processedContent = processContent(closedContent);
     
     // Set the processed content
     containerRef.current.innerHTML = processedContent;
@@ -161,17 +173,17 @@ export function MathRenderer({ content, className = "" }: MathRendererProps) {
         console.warn('MathJax rendering error:', error);
         // Fallback: show original content if MathJax fails
         if (containerRef.current) {
-          containerRef.current.innerHTML = content;
+          containerRef.current.innerHTML = closedContent;
         }
       });
     } catch (error) {
       console.warn('MathJax rendering error:', error);
       // Fallback: show original content
       if (containerRef.current) {
-        containerRef.current.innerHTML = content;
+        containerRef.current.innerHTML = closedContent;
       }
     }
-  }, [content, isReady]);
+  }, [closedContent, isReady]);
 
   if (!isReady) {
     return (
@@ -198,7 +210,6 @@ export function MathRenderer({ content, className = "" }: MathRendererProps) {
 
   return (
     <div 
-      ref={containerRef}
       className={`math-renderer ${className}`}
       style={{ 
         fontSize: '14px',
@@ -216,7 +227,10 @@ export function MathRenderer({ content, className = "" }: MathRendererProps) {
         maxWidth: '100%',
         boxSizing: 'border-box'
       }}
-    />
+    >
+      <div ref={containerRef} />
+      {openParagraph && <p>{openParagraph}</p>}
+    </div>
   );
 }
 
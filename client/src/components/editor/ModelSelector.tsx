@@ -0,0 +1,103 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { getModelCatalog } from '@shared/models';
+import type { GenerationSettings } from '@/types';
+
+const DEFAULT_VALUE = 'default';
+
+interface ModelSelectorProps {
+  provider: string;
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+// Model, temperature and max-token overrides for the selected provider, plus
+// the response-cache bypass. Leaving a field blank keeps the provider's own
+// default.
+export function ModelSelector({ provider, settings, onChange, disabled = false }: ModelSelectorProps) {
+  const catalog = getModelCatalog(provider);
+  const selectedModel = catalog?.models.find(m => m.id === settings.model);
+  const maxTokensLimit = (selectedModel || catalog?.models[0])?.maxOutputTokens;
+
+  const parseNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor={`model-${provider}`}>Model</Label>
+          {catalog ? (
+            <Select
+              value={settings.model || DEFAULT_VALUE}
+              onValueChange={(value) => onChange({ ...settings, model: value === DEFAULT_VALUE ? undefined : value })}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`model-${provider}`} data-testid="select-model">
+                <SelectValue placeholder="Provider default" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_VALUE}>Provider default</SelectItem>
+                {catalog.models.map(model => (
+                  <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            // Providers without a catalog (e.g. a custom endpoint) accept any model name
+            <Input
+              id={`model-${provider}`}
+              placeholder="Provider default"
+              value={settings.model || ''}
+              onChange={(e) => onChange({ ...settings, model: e.target.value.trim() || undefined })}
+              disabled={disabled}
+              data-testid="input-model"
+            />
+          )}
+        </div>
+        <div>
+          <Label htmlFor={`temperature-${provider}`}>Temperature</Label>
+          <Input
+            id={`temperature-${provider}`}
+            type="number"
+            min={0}
+            max={catalog?.maxTemperature ?? 2}
+            step={0.1}
+            placeholder="Default"
+            value={settings.temperature ?? ''}
+            onChange={(e) => onChange({ ...settings, temperature: parseNumber(e.target.value) })}
+            disabled={disabled}
+            data-testid="input-temperature"
+          />
+        </div>
+        <div>
+          <Label htmlFor={`max-tokens-${provider}`}>Max tokens</Label>
+          <Input
+            id={`max-tokens-${provider}`}
+            type="number"
+            min={1}
+            max={maxTokensLimit}
+            step={1}
+            placeholder={maxTokensLimit ? `Up to ${maxTokensLimit}` : 'Default'}
+            value={settings.maxTokens ?? ''}
+            onChange={(e) => onChange({ ...settings, maxTokens: parseNumber(e.target.value) })}
+            disabled={disabled}
+            data-testid="input-max-tokens"
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`no-cache-${provider}`}
+          checked={Boolean(settings.noCache)}
+          onCheckedChange={(checked) => onChange({ ...settings, noCache: checked ? true : undefined })}
+          disabled={disabled}
+          data-testid="checkbox-no-cache"
+        />
+        <Label htmlFor={`no-cache-${provider}`} className="text-sm">Skip cache (always ask the provider again)</Label>
+      </div>
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
-import { Trash2, Copy, Download, Bot, Mail, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { Trash2, Copy, Download, Bot, Mail, Eye, EyeOff, RefreshCw, BookmarkPlus } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -37,9 +37,11 @@ interface OutputEditorProps {
   onDetectAI: (text: string) => Promise<void>;
   onSendEmail: (to: string, subject: string, message: string, originalText: string, transformedText: string) => Promise<boolean>;
   onRewrite: (text: string, instructions: string) => Promise<void>;
+  onSaveToLibrary?: (text: string) => Promise<void>;
   isDetecting: boolean;
   isSendingEmail: boolean;
   isRewriting?: boolean;
+  isStreaming?: boolean;
   inputText: string;
   outputAIResult?: { isAI: boolean; confidence: number; details: string } | null;
 }
@@ -56,9 +58,11 @@ export function OutputEditor({
   onDetectAI,
   onSendEmail,
   onRewrite,
+  onSaveToLibrary,
   isDetecting,
   isSendingEmail,
   isRewriting = false,
+  isStreaming = false,
   inputText,
   outputAIResult
 }: OutputEditorProps) {
@@ -150,6 +154,26 @@ export function OutputEditor({
             </Tooltip>
           </TooltipProvider>
 
+          {onSaveToLibrary && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="p-1 text-slate-400 hover:text-slate-600 transition-colors"
+                    onClick={() => onSaveToLibrary(text)}
+                    disabled={!text || isStreaming}
+                    data-testid="button-save-output-to-library"
+                  >
+                    <BookmarkPlus className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Save to library</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -258,14 +282,17 @@ export function OutputEditor({
             </TabsContent>
             <TabsContent value="preview" className="mt-0">
               <div className="min-h-[600px] border border-gray-200 rounded-none overflow-hidden">
-                <MathRenderer content={text} className="min-h-[600px] w-full overflow-x-auto" />
-                <MathGraphRenderer 
-                  content={text} 
-                  onContentUpdate={(updatedContent) => {
-                    onTextChange(updatedContent);
-                    setIsProcessingGraphs(false);
-                  }}
-                />
+                <MathRenderer content={text} streaming={isStreaming} className="min-h-[600px] w-full overflow-x-auto" />
+                {/* Graphs rewrite the text, so wait for the final result */}
+                {!isStreaming && (
+                  <MathGraphRenderer 
+                    content={text} 
+                    onContentUpdate={(updatedContent) => {
+                      onTextChange(updatedContent);
+                      setIsProcessingGraphs(false);
+                    }}
+                  />
+                )}
               </div>
             </TabsContent>
           </Tabs>
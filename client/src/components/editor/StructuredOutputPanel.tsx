@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Download, LoaderIcon } from 'lucide-react';
+import { OUTPUT_SCHEMA_PRESETS } from '@shared/outputSchemas';
+import { processStructured } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { fallbackNotice } from '@/hooks/use-document-processor';
+import type { GenerationSettings, JsonSchema, LLMProvider, StructuredResponse } from '@/types';
+
+const CUSTOM_SCHEMA = 'custom';
+
+interface StructuredOutputPanelProps {
+  inputText: string;
+  // The user's instructions; the preset's own are used when these are blank
+  instructions: string;
+  contentSource: string;
+  useContentSource: boolean;
+  llmProvider: LLMProvider;
+  generationSettings: GenerationSettings;
+}
+
+// Parses the custom schema textarea, or returns the reason it can't be used
+function parseCustomSchema(text: string): { schema: JsonSchema } | { error: string } {
+  try {
+    const schema = JSON.parse(text);
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return { error: 'The schema must be a JSON object.' };
+    }
+    return { schema };
+  } catch (error: any) {
+    return { error: `The schema is not valid JSON: ${error?.message || 'parse error'}` };
+  }
+}
+
+// Structured output: extracts machine-readable results (definitions, an
+// outline, questions, or anything a custom JSON Schema describes) from the
+// input text, shows the JSON and offers it as a download.
+export function StructuredOutputPanel({
+  inputText,
+  instructions,
+  contentSource,
+  useContentSource,
+  llmProvider,
+  generationSettings
+}: StructuredOutputPanelProps) {
+  const { toast } = useToast();
+  const [presetId, setPresetId] = useState(OUTPUT_SCHEMA_PRESETS[0].id);
+  const [customSchema, setCustomSchema] = useState(() => JSON.stringify(OUTPUT_SCHEMA_PRESETS[0].schema, null, 2));
+  const [response, setResponse] = useState<StructuredResponse | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const preset = OUTPUT_SCHEMA_PRESETS.find(option => option.id === presetId);
+
+  const handlePresetChange = (value: string) => {
+    setPresetId(value);
+    // Start a custom schema from the last preset, which is easier than a blank page
+    if (value === CUSTOM_SCHEMA && preset) {
+      setCustomSchema(JSON.stringify(preset.schema, null, 2));
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!inputText.trim()) {
+      toast({ title: "Nothing to extract from", description: "Enter some input text first.", variant: "destructive" });
+      return;
+    }
+
+    let schema: JsonSchema;
+    if (preset) {
+      schema = preset.schema;
+    } else {
+      const parsed = parseCustomSchema(customSchema);
+      if ('error' in parsed) {
+        toast({ title: "Invalid schema", description: parsed.error, variant: "destructive" });
+        return;
+      }
+      schema = parsed.schema;
+    }
+
+    setIsGenerating(true);
+    try {
+      const data = await processStructured({
+        inputText,
+        instructions: instructions.trim() || preset?.instructions || 'Extract the information the schema describes from the text.',
+        contentSource,
+        useContentSource,
+        llmProvider,
+        ...generationSettings,
+        outputSchema: schema,
+        outputSchemaName: preset?.id
+      });
+      setResponse(data);
+      const notice = fallbackNotice(llmProvider, data.provider);
+      if (notice) toast(notice);
+    } catch (error: any) {
+      console.error('Error generating structured output:', error);
+      toast({
+        title: "Structured output failed",
+        description: error?.message || 'Unknown error occurred',
+        variant: "destructive"
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!response) return;
+    await navigator.clipboard.writeText(response.result);
+    toast({ title: "JSON copied to clipboard" });
+  };
+
+  const handleDownload = () => {
+    if (!response) return;
+    const blob = new Blob([response.result], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${preset?.id ?? 'structured-output'}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Structured Output</CardTitle>
+        <CardDescription>
+          Extract machine-readable JSON from the input text, checked against a schema.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Schema</Label>
+          <Select value={presetId} onValueChange={handlePresetChange} disabled={isGenerating}>
+            <SelectTrigger data-testid="select-output-schema">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTPUT_SCHEMA_PRESETS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.title}</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_SCHEMA}>Custom JSON Schema</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset ? (
+            <p className="text-xs text-slate-500">{preset.description}</p>
+          ) : (
+            <Textarea
+              value={customSchema}
+              onChange={(e) => setCustomSchema(e.target.value)}
+              className="font-mono text-xs min-h-[200px]"
+              disabled={isGenerating}
+              data-testid="textarea-custom-schema"
+            />
+          )}
+        </div>
+
+        <Button onClick={handleGenerate} disabled={isGenerating} data-testid="button-generate-structured">
+          {isGenerating ? (
+            <>
+              <LoaderIcon className="mr-2 h-4 w-4 animate-spin" />
+              Generating...
+            </>
+          ) : (
+            'Generate JSON'
+          )}
+        </Button>
+
+        {response && (
+          <div className="border rounded-lg" data-testid="structured-output-result">
+            <div className="flex items-center justify-between p-3 border-b bg-slate-50 dark:bg-slate-900">
+              <span className="text-xs text-slate-500">
+                {response.provider}
+                {response.attempts > 1 && ` - repaired after ${response.attempts - 1} invalid ${response.attempts === 2 ? 'reply' : 'replies'}`}
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={handleCopy}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleDownload} data-testid="button-download-json">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download .json
+                </Button>
+              </div>
+            </div>
+            <pre className="p-3 max-h-[500px] overflow-auto text-xs font-mono whitespace-pre-wrap">{response.result}</pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ChunkSelectionModal } from "./ChunkSelectionModal";
+import { RevisionTimeline } from "./RevisionTimeline";
+import { ModelSelector } from "@/components/editor/ModelSelector";
+import type { GenerationSettings, Job } from "@/types";
+import { waitForJob, resumeJob, getJob } from "@/lib/api";
 import { WRITING_SAMPLES, INSTRUCTION_PRESETS, DEFAULT_WRITING_SAMPLE, DEFAULT_INSTRUCTION_PRESETS, type WritingSample, type InstructionPreset } from "@shared/writingSamples";
 import { 
   Upload, 
@@ -28,17 +32,6 @@ import {
   Trash2
 } from "lucide-react";
 
-interface RewriteJob {
-  id: string;
-  originalText: string;
-  rewrittenText?: string;
-  styleText: string;
-  provider: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-  createdAt: Date;
-  completedAt?: Date;
-}
-
 interface GPTZeroResult {
   aiScore: number;
   isAI: boolean;
@@ -58,19 +51,22 @@ interface GPTBypassProps {
   onSendToOutput?: (text: string) => void;
   inputFromMain?: string;
   outputFromMain?: string;
+  // A saved job to open; a new object each time, so the same job can be reopened
+  jobFromMain?: { id: string };
   onSendToGPTBypass?: (text: string) => void;
 }
 
 // Remove this as we now use the shared writing samples
 
-export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMain, outputFromMain }: GPTBypassProps = {}) {
+export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMain, outputFromMain, jobFromMain }: GPTBypassProps = {}) {
   const [inputText, setInputText] = useState("");
   const [styleText, setStyleText] = useState(DEFAULT_WRITING_SAMPLE.content);
   const [outputText, setOutputText] = useState("");
-  const [provider, setProvider] = useState<'anthropic' | 'openai' | 'deepseek' | 'perplexity'>('anthropic');
+  const [provider, setProvider] = useState<'anthropic' | 'openai' | 'deepseek' | 'perplexity' | 'custom' | 'mock'>('anthropic');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({});
   const [isProcessing, setIsProcessing] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
-  const [currentJob, setCurrentJob] = useState<RewriteJob | null>(null);
+  const [currentJob, setCurrentJob] = useState<Job | null>(null);
   const [inputGptZeroResult, setInputGptZeroResult] = useState<GPTZeroResult | null>(null);
   const [outputGptZeroResult, setOutputGptZeroResult] = useState<GPTZeroResult | null>(null);
   const [progress, setProgress] = useState(0);
@@ -88,6 +84,8 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
   const [pendingFileContent, setPendingFileContent] = useState<string>("");
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Aborting it cancels the rewrite job in progress
+  const rewriteAbortRef = useRef<AbortController | null>(null);
   const styleFileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -165,6 +163,25 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
     }
   }, [inputFromMain]);
 
+  // Open a saved job with its input and output
+  useEffect(() => {
+    if (!jobFromMain) return;
+    getJob(jobFromMain.id)
+      .then(job => {
+        setInputText(job.inputText);
+        setOutputText(job.outputText || '');
+        // Only rewrite jobs have revisions and chunks to resume
+        setCurrentJob(job.mode === 'rewrite' ? job : null);
+      })
+      .catch(error => {
+        toast({
+          title: "Could not open job",
+          description: error instanceof Error ? error.message : "Failed to load the job",
+          variant: "destructive",
+        });
+      });
+  }, [jobFromMain]);
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, isStyleUpload = false) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -259,6 +276,78 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
     }
   };
 
+  // Polls a rewrite job until it's done and shows its output
+  const followRewriteJob = async (jobId: string) => {
+    const controller = new AbortController();
+    rewriteAbortRef.current = controller;
+    const job = await waitForJob(jobId, {
+      signal: controller.signal,
+      onUpdate: ({ completedChunks, totalChunks }) => {
+        if (totalChunks) setProgress(Math.round((completedChunks / totalChunks) * 100));
+      }
+    });
+
+    // Kept even when the job failed, since its finished chunks can be resumed
+    setCurrentJob(job);
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Rewrite failed');
+    }
+    if (job.outputText) {
+      setOutputText(job.outputText);
+      // Auto-detect AI on the output
+      detectAIText(job.outputText, 'output');
+    }
+
+    if (job.status === 'cancelled') {
+      toast({
+        title: "Rewrite cancelled",
+        description: "The sections rewritten before the cancel have been kept. Resume to rewrite the rest.",
+      });
+      return;
+    }
+    if (job.error) {
+      toast({
+        title: "Some sections could not be rewritten",
+        description: `${job.error}. Resume to retry them.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // More than one provider means the chosen one failed partway and a fallback took over
+    const providers: string[] = job.providers || [];
+    toast({
+      title: "Rewrite completed",
+      description: providers.length > 0 && providers.join(',') !== provider
+        ? `Text successfully humanized (answered by ${providers.join(', ')})`
+        : "Text successfully humanized",
+    });
+  };
+
+  // Chunks of the last job that failed or never ran, which resume retries
+  const unfinishedChunks = currentJob?.chunks?.filter(chunk => chunk.status !== 'completed').length ?? 0;
+
+  const handleResume = async () => {
+    if (!currentJob) return;
+    setIsProcessing(true);
+    setProgress(0);
+    try {
+      await resumeJob(currentJob.id);
+      await followRewriteJob(currentJob.id);
+    } catch (error) {
+      console.error('Resume error:', error);
+      toast({
+        title: "Resume failed",
+        description: error instanceof Error ? error.message : "Failed to resume the rewrite",
+        variant: "destructive",
+      });
+    } finally {
+      rewriteAbortRef.current = null;
+      setIsProcessing(false);
+      setProgress(0);
+    }
+  };
+
   const handleRewrite = async (isReRewrite = false) => {
     if (!inputText.trim()) {
       toast({
@@ -291,37 +380,23 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
           inputText,
           styleText,
           provider,
+          ...generationSettings,
           instructions: combinedInstructions,
+          // Recorded with the revision this pass produces
+          selectedPresets,
+          customInstructions: customInstructions.trim() || undefined,
           reRewrite: isReRewrite,
           jobId: isReRewrite && currentJob ? currentJob.id : undefined
         })
       });
 
-      // Simulate progress
-      const progressInterval = setInterval(() => {
-        setProgress(prev => Math.min(prev + 10, 90));
-      }, 500);
-
-      clearInterval(progressInterval);
-      setProgress(100);
-
       if (!response.ok) {
         throw new Error(`Rewrite failed: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      setOutputText(data.rewrittenText);
-      setCurrentJob(data);
-      
-      // Auto-detect AI on the output
-      if (data.rewrittenText) {
-        detectAIText(data.rewrittenText, 'output');
-      }
-      
-      toast({
-        title: "Rewrite completed",
-        description: "Text successfully humanized",
-      });
+      // The rewrite runs as a background job; follow it until it's done
+      const { jobId } = await response.json();
+      await followRewriteJob(jobId);
     } catch (error) {
       console.error('Rewrite error:', error);
       toast({
@@ -330,6 +405,7 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
         variant: "destructive",
       });
     } finally {
+      rewriteAbortRef.current = null;
       setIsProcessing(false);
       setProgress(0);
     }
@@ -501,7 +577,14 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
           <CardContent>
             <div className="space-y-2">
               <Label>AI Provider</Label>
-              <Select value={provider} onValueChange={(value: any) => setProvider(value)}>
+              <Select
+                value={provider}
+                onValueChange={(value: any) => {
+                  setProvider(value);
+                  // Models are provider-specific
+                  setGenerationSettings(prev => ({ ...prev, model: undefined }));
+                }}
+              >
                 <SelectTrigger data-testid="select-provider">
                   <SelectValue />
                 </SelectTrigger>
@@ -510,9 +593,19 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
                   <SelectItem value="openai" data-testid="option-zhi-2">ZHI 2</SelectItem>
                   <SelectItem value="deepseek" data-testid="option-zhi-3">ZHI 3</SelectItem>
                   <SelectItem value="perplexity" data-testid="option-zhi-4">ZHI 4</SelectItem>
+                  <SelectItem value="custom" data-testid="option-custom">Custom endpoint</SelectItem>
+                  {import.meta.env.DEV && <SelectItem value="mock" data-testid="option-mock">Mock (offline)</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
+            <div className="mt-4">
+              <ModelSelector
+                provider={provider}
+                settings={generationSettings}
+                onChange={setGenerationSettings}
+                disabled={isProcessing}
+              />
+            </div>
           </CardContent>
         </Card>
         {/* Input Section */}
@@ -915,7 +1008,18 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
             </div>
 
             {/* Humanize Again Button */}
-            <div className="mt-4 flex justify-center">
+            <div className="mt-4 flex justify-center gap-2">
+              {unfinishedChunks > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={handleResume}
+                  disabled={isProcessing}
+                  data-testid="button-resume-rewrite"
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume ({unfinishedChunks} section{unfinishedChunks !== 1 ? 's' : ''} left)
+                </Button>
+              )}
               <Button
                 onClick={() => handleHumanizeAgain()}
                 disabled={isProcessing || !outputText.trim()}
@@ -983,9 +1087,29 @@ export function GPTBypassInterface({ onSendToInput, onSendToOutput, inputFromMai
             <span>{progress}%</span>
           </div>
           <Progress value={progress} className="w-full" />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => rewriteAbortRef.current?.abort()}
+            data-testid="button-cancel-rewrite"
+          >
+            Cancel
+          </Button>
         </div>
       )}
 
+      {currentJob && (
+        <RevisionTimeline
+          jobId={currentJob.id}
+          refreshKey={currentJob.updatedAt}
+          disabled={isProcessing}
+          onRestore={(job) => {
+            setCurrentJob(job);
+            setOutputText(job.outputText || '');
+          }}
+        />
+      )}
+
       {/* Chunk Selection Modal */}
       <ChunkSelectionModal
         isOpen={showChunkModal}
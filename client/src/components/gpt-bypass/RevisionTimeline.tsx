@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, LoaderIcon, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { diffJobRevision, getJobRevision, restoreJobRevision } from '@/lib/api';
+import type { Job, JobRevisionSummary, RevisionDiff } from '@/types';
+
+const AGAINST_INPUT = 'input';
+
+interface RevisionTimelineProps {
+  jobId: string;
+  // Changes when the job does, so new passes show up
+  refreshKey?: string | null;
+  disabled?: boolean;
+  onRestore: (job: Job) => void;
+}
+
+function DiffView({ diff }: { diff: RevisionDiff }) {
+  return (
+    <div className="text-sm whitespace-pre-wrap leading-relaxed" data-testid="revision-diff">
+      {diff.parts.map((part, index) => (
+        part.op === 'equal' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.op === 'insert' ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-100">{part.text}</ins>
+        ) : (
+          <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100">{part.text}</del>
+        )
+      ))}
+    </div>
+  );
+}
+
+// Every pass of a rewrite job, newest first. Each one can be compared with
+// the text it started from or with another pass, and restored as the job's
+// output so the next "Humanize Again" starts from it.
+export function RevisionTimeline({ jobId, refreshKey, disabled, onRestore }: RevisionTimelineProps) {
+  const { toast } = useToast();
+  const { data: revisions = [], refetch } = useQuery<JobRevisionSummary[]>({
+    queryKey: [`/api/jobs/${jobId}/revisions`],
+  });
+  const [selected, setSelected] = useState<number | null>(null);
+  const [against, setAgainst] = useState(AGAINST_INPUT);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    refetch();
+  }, [refreshKey, refetch]);
+
+  useEffect(() => {
+    if (selected === null) {
+      setDiff(null);
+      return;
+    }
+    let stale = false;
+    setIsLoadingDiff(true);
+    diffJobRevision(jobId, selected, against === AGAINST_INPUT ? undefined : Number(against))
+      .then(result => {
+        if (!stale) setDiff(result);
+      })
+      .catch(error => {
+        if (!stale) toast({ title: "Could not compare revisions", description: error?.message, variant: "destructive" });
+      })
+      .finally(() => {
+        if (!stale) setIsLoadingDiff(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [jobId, selected, against, toast]);
+
+  const handleRestore = async (revision: number) => {
+    setRestoring(revision);
+    try {
+      const job = await restoreJobRevision(jobId, revision);
+      onRestore(job);
+      toast({ title: `Pass ${revision} restored`, description: "Its text is back in the output." });
+    } catch (error: any) {
+      toast({ title: "Restore failed", description: error?.message || 'Unknown error occurred', variant: "destructive" });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleCopy = async (revision: number) => {
+    try {
+      const { outputText } = await getJobRevision(jobId, revision);
+      await navigator.clipboard.writeText(outputText);
+      toast({ title: `Pass ${revision} copied to clipboard` });
+    } catch (error: any) {
+      toast({ title: "Copy failed", description: error?.message || 'Unknown error occurred', variant: "destructive" });
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          Each pass of this rewrite is kept. Compare a pass with the text it started from or with another pass, or restore it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ScrollArea className="max-h-[320px]">
+          <ol className="space-y-2">
+            {[...revisions].reverse().map(revision => (
+              <li
+                key={revision.revision}
+                className={`border rounded-lg p-3 ${selected === revision.revision ? 'border-blue-500' : ''}`}
+                data-testid={`revision-${revision.revision}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline">Pass {revision.revision}</Badge>
+                    <span className="text-slate-500">{new Date(revision.createdAt).toLocaleString()}</span>
+                    <span className="text-slate-500">{(revision.providers ?? [revision.provider]).join(', ')}</span>
+                    <span className="text-slate-500">{revision.inputWords} → {revision.outputWords} words</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={selected === revision.revision ? 'secondary' : 'ghost'}
+                      onClick={() => setSelected(selected === revision.revision ? null : revision.revision)}
+                    >
+                      Changes
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleCopy(revision.revision)}>
+                      Copy
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRestore(revision.revision)}
+                      disabled={disabled || restoring !== null}
+                      data-testid={`button-restore-revision-${revision.revision}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+                {(revision.selectedPresets?.length || revision.customInstructions) && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {revision.selectedPresets?.map(preset => (
+                      <Badge key={preset} variant="secondary" className="text-xs">{preset}</Badge>
+                    ))}
+                    {revision.customInstructions && (
+                      <span className="text-xs text-slate-500 truncate max-w-md">{revision.customInstructions}</span>
+                    )}
+                  </div>
+                )}
+                <p className="mt-1 text-xs text-slate-600 line-clamp-2">{revision.preview}</p>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+
+        {selected !== null && (
+          <div className="border rounded-lg">
+            <div className="flex items-center justify-between gap-2 p-3 border-b bg-slate-50 dark:bg-slate-900">
+              <div className="flex items-center gap-2 text-sm">
+                <span>Pass {selected} compared with</span>
+                <Select value={against} onValueChange={setAgainst}>
+                  <SelectTrigger className="w-44 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AGAINST_INPUT}>the text it started from</SelectItem>
+                    {revisions.filter(revision => revision.revision !== selected).map(revision => (
+                      <SelectItem key={revision.revision} value={String(revision.revision)}>pass {revision.revision}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {diff && (
+                <span className="text-xs text-slate-500">
+                  <span className="text-green-700">+{diff.inserted}</span> / <span className="text-red-700">-{diff.deleted}</span> words
+                </span>
+              )}
+            </div>
+            <ScrollArea className="max-h-[400px] p-3">
+              {isLoadingDiff || !diff ? (
+                <LoaderIcon className="h-4 w-4 animate-spin" />
+              ) : (
+                <DiffView diff={diff} />
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -60,6 +60,8 @@ export function Header({ llmProvider, onLLMProviderChange }: HeaderProps) {
                   <SelectItem value="openai">ZHI 2</SelectItem>
                   <SelectItem value="deepseek">ZHI 3</SelectItem>
                   <SelectItem value="perplexity">ZHI 4</SelectItem>
+                  <SelectItem value="custom">Custom endpoint</SelectItem>
+                  {import.meta.env.DEV && <SelectItem value="mock">Mock (offline)</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
@@ -108,6 +110,16 @@ export function Header({ llmProvider, onLLMProviderChange }: HeaderProps) {
                       <RadioGroupItem value="perplexity" id="perplexity" />
                       <Label htmlFor="perplexity">Perplexity</Label>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="custom" id="custom" />
+                      <Label htmlFor="custom">Custom endpoint</Label>
+                    </div>
+                    {import.meta.env.DEV && (
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="mock" id="mock" />
+                        <Label htmlFor="mock">Mock (offline)</Label>
+                      </div>
+                    )}
                   </RadioGroup>
                 </div>
                 
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { FileText, History, Search } from 'lucide-react';
+import { handOff } from '@/hooks/use-handoff';
+import type { SearchHit, SearchResponse } from '@/types';
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+// Full-text search over library documents and jobs. Picking a document opens
+// it in the home page's input; picking a job opens it on the GPT Bypass page.
+export function SearchBox() {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    // Documents and jobs change underneath a query, unlike most lookups
+    staleTime: 0,
+  });
+  const results = debouncedQuery.length >= MIN_QUERY_LENGTH ? data?.results ?? [] : [];
+
+  const select = (hit: SearchHit) => {
+    if (hit.kind === 'document') {
+      handOff('document', { id: hit.id, target: 'input' });
+      setLocation('/');
+    } else {
+      handOff('job', { id: hit.id });
+      setLocation('/gpt-bypass');
+    }
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative w-64 md:w-80">
+      <Search className="absolute left-2 top-2.5 h-4 w-4 text-slate-400" />
+      <Input
+        className="pl-8"
+        placeholder="Search documents and jobs..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && results.length > 0) select(results[0]);
+          if (e.key === 'Escape') setIsOpen(false);
+        }}
+        data-testid="input-global-search"
+      />
+
+      {isOpen && debouncedQuery.length >= MIN_QUERY_LENGTH && (
+        <div className="absolute right-0 z-50 mt-1 w-[28rem] max-h-[28rem] overflow-y-auto rounded-md border bg-white shadow-lg dark:bg-slate-900">
+          {results.length === 0 ? (
+            <p className="p-3 text-sm text-slate-500">{isFetching ? 'Searching...' : 'No matches.'}</p>
+          ) : (
+            <ul>
+              {results.map(hit => (
+                <li key={`${hit.kind}-${hit.id}`}>
+                  <button
+                    className="w-full text-left p-3 hover:bg-slate-50 dark:hover:bg-slate-800 border-b last:border-b-0"
+                    // Before the input's blur closes the list
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => select(hit)}
+                    data-testid={`search-hit-${hit.id}`}
+                  >
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {hit.kind === 'document' ? <FileText className="h-4 w-4 shrink-0" /> : <History className="h-4 w-4 shrink-0" />}
+                      <span className="truncate">{hit.title || 'Untitled'}</span>
+                      {hit.kind === 'job' && <Badge variant="outline" className="text-xs">job {hit.field}</Badge>}
+                    </div>
+                    <p className="mt-1 text-xs text-slate-600 dark:text-slate-300 line-clamp-3">
+                      {hit.snippet.map((part, index) => (
+                        part.match
+                          ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700">{part.text}</mark>
+                          : <span key={index}>{part.text}</span>
+                      ))}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
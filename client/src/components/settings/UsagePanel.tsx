@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import type { UsageSummary, UsageTotals } from '@/types';
+
+const RANGES = [7, 30, 90];
+
+function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
+
+function UsageTable({ label, rows }: { label: string; rows: Array<UsageTotals & { key: string }> }) {
+  if (rows.length === 0) return null;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Input tokens</TableHead>
+          <TableHead className="text-right">Output tokens</TableHead>
+          <TableHead className="text-right">Est. cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="font-mono text-xs">{row.key}</TableCell>
+            <TableCell className="text-right">{row.calls}</TableCell>
+            <TableCell className="text-right">{formatTokens(row.inputTokens)}</TableCell>
+            <TableCell className="text-right">{formatTokens(row.outputTokens)}</TableCell>
+            <TableCell className="text-right">{formatCost(row.estimatedCost)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Token usage and estimated spend recorded for every LLM call
+export function UsagePanel() {
+  const [days, setDays] = useState(30);
+  const [mine, setMine] = useState(false);
+  const { data, isLoading, error, refetch, isFetching } = useQuery<UsageSummary>({
+    queryKey: [`/api/usage/summary?days=${days}&mine=${mine}`],
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Usage & Cost</CardTitle>
+            <CardDescription>
+              Tokens and estimated spend per provider, day, job, browser and request, priced from each model's list price.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-2 mr-2">
+              <Switch id="usage-mine" checked={mine} onCheckedChange={setMine} data-testid="switch-usage-mine" />
+              <Label htmlFor="usage-mine" className="text-sm whitespace-nowrap">This browser only</Label>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-32" data-testid="select-usage-range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(range => (
+                  <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading usage...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500">Failed to load usage: {(error as Error).message}</p>
+        ) : !data || data.totals.calls === 0 ? (
+          <p className="text-sm text-slate-500">No LLM calls recorded in this period.</p>
+        ) : (
+          <div className="grid gap-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-slate-500">Estimated cost</p>
+                <p className="text-2xl font-semibold">{formatCost(data.totals.estimatedCost)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-slate-500">Calls</p>
+                <p className="text-2xl font-semibold">{data.totals.calls}</p>
+              </div>
+              <div>
+                <p className="text-sm text-slate-500">Input tokens</p>
+                <p className="text-2xl font-semibold">{formatTokens(data.totals.inputTokens)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-slate-500">Output tokens</p>
+                <p className="text-2xl font-semibold">{formatTokens(data.totals.outputTokens)}</p>
+              </div>
+            </div>
+            {data.totals.unpricedCalls > 0 && (
+              <p className="text-sm text-slate-500">
+                {data.totals.unpricedCalls} calls used models without a known price and are not included in the cost.
+              </p>
+            )}
+            <UsageTable label="Provider" rows={data.byProvider.map(row => ({ ...row, key: row.provider }))} />
+            <UsageTable label="Day" rows={[...data.byDay].reverse().map(row => ({ ...row, key: row.day }))} />
+            <UsageTable label="Rewrite job" rows={data.byJob.slice(0, 10).map(row => ({ ...row, key: row.jobId }))} />
+            <UsageTable
+              label="Request"
+              rows={data.byRequest.slice(0, 10).map(row => ({ ...row, key: `${row.operation} ${row.requestId.slice(0, 8)}` }))}
+            />
+            {!mine && (
+              <UsageTable label="Browser" rows={data.byClient.slice(0, 10).map(row => ({ ...row, key: row.clientId }))} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
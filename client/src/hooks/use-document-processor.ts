@@ -1,14 +1,63 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, streamRequest, queryClient } from '@/lib/queryClient';
+import { submitProcessJob, waitForJob, saveDocument } from '@/lib/api';
+import type { GenerationSettings, ChunkError, ChunkProgress, CacheReport, RollingContext, ProcessTextRequest } from '@/types';
+import { chunkTexts } from '@shared/chunking';
 
-export type LLMProvider = 'openai' | 'anthropic' | 'perplexity' | 'deepseek';
+export type LLMProvider = 'openai' | 'anthropic' | 'perplexity' | 'deepseek' | 'custom' | 'mock';
 
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // True while tokens are still arriving
+  streaming?: boolean;
+}
+
+// Toast text for sections that failed, e.g. "Sections 2, 5 failed: ..."
+function describeChunkErrors(errors: Array<Pick<ChunkError, 'chunkIndex' | 'message'>>): string {
+  const sections = errors.map(e => e.chunkIndex + 1).join(', ');
+  return `${errors.length === 1 ? 'Section' : 'Sections'} ${sections} failed: ${errors[0].message}`;
+}
+
+// Toast for a reply that came from a fallback because the chosen provider failed
+export function fallbackNotice(requested: string, answeredBy?: string) {
+  if (!answeredBy || answeredBy === requested) return null;
+  return {
+    title: `Answered by ${answeredBy}`,
+    description: `${requested} was unavailable, so the request fell back to ${answeredBy}.`
+  };
+}
+
+interface ProcessTextResult {
+  result: string;
+  chunkErrors?: ChunkError[];
+  provider?: string;
+  cache?: CacheReport;
+  // A background job reports the sections it left out as one message
+  skippedSections?: string | null;
+}
+
+// Runs process-text as a background job and polls it, so a long document
+// doesn't depend on one request staying open until it's done
+async function runProcessJob(
+  options: ProcessTextRequest,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: ChunkProgress) => void }
+): Promise<ProcessTextResult> {
+  const submitted = await submitProcessJob(options);
+  const job = await waitForJob(submitted.id, {
+    signal,
+    onUpdate: ({ completedChunks, totalChunks }) => {
+      if (totalChunks && totalChunks > 1) {
+        onProgress?.({ chunkIndex: completedChunks - 1, completed: completedChunks, totalChunks, failed: false });
+      }
+    }
+  });
+  if (job.status === 'failed') throw new Error(job.error || 'Processing failed');
+  if (job.status === 'cancelled') throw new Error('Processing cancelled');
+  return { result: job.outputText ?? '', provider: job.providers?.[0], skippedSections: job.error };
 }
 
 export function useDocumentProcessor() {
@@ -25,8 +74,17 @@ export function useDocumentProcessor() {
   const [useStyleSource, setUseStyleSource] = useState(false);
   const [reprocessOutput, setReprocessOutput] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Sections of a chunked document done so far, while one is processing
+  const [chunkProgress, setChunkProgress] = useState<{ completed: number; total: number } | null>(null);
   const [isRewriting, setIsRewriting] = useState(false);
   const [llmProvider, setLLMProvider] = useState<LLMProvider>('anthropic');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({});
+  
+  // Models are provider-specific, so a new provider starts from its default
+  useEffect(() => {
+    setGenerationSettings(prev => ({ ...prev, model: undefined }));
+  }, [llmProvider]);
   
   // Homework mode state
   const [homeworkMode, setHomeworkMode] = useState(false);
@@ -47,6 +105,8 @@ export function useDocumentProcessor() {
   const inputFileRef = useRef<HTMLInputElement>(null);
   const contentSourceFileRef = useRef<HTMLInputElement>(null);
   const audioRef = useRef<HTMLInputElement>(null);
+  // Aborting it cancels the run in progress, here and on the server
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Special content for commands
   const [specialContent, setSpecialContent] = useState('');
@@ -65,35 +125,10 @@ export function useDocumentProcessor() {
   const [rewriteInstructions, setRewriteInstructions] = useState('');
   const [lastUsedInstructions, setLastUsedInstructions] = useState('');
 
-  // Helper function to create meaningful chunks
+  // Helper function to create meaningful chunks - 4000 characters at most,
+  // split on paragraphs, then sentences (see @shared/chunking)
   const createMeaningfulChunks = (text: string): string[] => {
-    // Split by paragraphs first, then combine into reasonably sized chunks
-    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-    const chunks: string[] = [];
-    let currentChunk = '';
-    
-    for (const paragraph of paragraphs) {
-      const trimmedParagraph = paragraph.trim();
-      if (!trimmedParagraph) continue;
-      
-      // Test if adding this paragraph would make chunk too large
-      const testChunk = currentChunk + (currentChunk ? '\n\n' : '') + trimmedParagraph;
-      
-      // Target chunk size: 2000-4000 characters (roughly 300-600 words)
-      if (testChunk.length > 4000 && currentChunk.length > 500) {
-        chunks.push(currentChunk);
-        currentChunk = trimmedParagraph;
-      } else {
-        currentChunk = testChunk;
-      }
-    }
-    
-    // Add the last chunk if it has content
-    if (currentChunk.trim().length > 100) {
-      chunks.push(currentChunk);
-    }
-    
-    return chunks;
+    return chunkTexts(text, { maxSize: 4000, measure: (piece) => piece.length });
   };
 
   // Core text processing function
@@ -106,11 +141,38 @@ export function useDocumentProcessor() {
     useStyleSource?: boolean;
     llmProvider: LLMProvider;
     examMode?: boolean;
-  }) => {
-    const response = await apiRequest('POST', '/api/process-text', options);
-    const data = await response.json();
+  } & GenerationSettings, onToken?: (token: string) => void, {
+    signal,
+    onProgress
+  }: { signal?: AbortSignal; onProgress?: (progress: ChunkProgress) => void } = {}) => {
+    // Stream tokens (and section progress) as they arrive when the caller
+    // wants live output; otherwise run it as a background job
+    const data: ProcessTextResult = onToken
+      ? await streamRequest('/api/process-text/stream', options, onToken, { signal, onProgress })
+      : await runProcessJob(options, { signal, onProgress });
+
+    const notice = fallbackNotice(options.llmProvider, data.provider);
+    if (notice) toast(notice);
+
+    // Identical requests are answered from the server's response cache
+    if (data.cache?.hits && !data.cache.misses) {
+      toast({
+        title: "Answered from cache",
+        description: "This exact request was processed before. Tick \"Skip cache\" to ask the provider again."
+      });
+    }
+
+    // Large documents are split server-side; sections that failed are left
+    // out of the result and reported here
+    if (data.chunkErrors?.length || data.skippedSections) {
+      toast({
+        title: "Some sections could not be processed",
+        description: data.chunkErrors?.length ? describeChunkErrors(data.chunkErrors) : data.skippedSections,
+        variant: "destructive"
+      });
+    }
     return data.result;
-  }, []);
+  }, [toast]);
 
   // Process document function
   const processDocument = useCallback(async (instructions: string, forceHomeworkMode?: boolean) => {
@@ -168,6 +230,8 @@ export function useDocumentProcessor() {
     const effectiveUseStyleSource = useStyleSource && styleSource?.trim();
 
     setProcessing(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
       let result: string;
@@ -182,6 +246,8 @@ export function useDocumentProcessor() {
                         finalInstructions.toLowerCase().includes('test') ||
                         finalInstructions.toLowerCase().includes('quiz');
         
+        setOutputText('');
+        setIsStreaming(true);
         result = await processText({
           inputText,
           instructions: finalInstructions,
@@ -190,10 +256,15 @@ export function useDocumentProcessor() {
           styleSource,
           useStyleSource: Boolean(effectiveUseStyleSource),
           llmProvider,
-          examMode: examMode
+          examMode: examMode,
+          ...generationSettings
+        }, (token) => setOutputText(prev => prev + token), {
+          signal: controller.signal,
+          onProgress: (progress) => setChunkProgress({ completed: progress.completed, total: progress.totalChunks })
         });
       }
       
+      // The final result is post-processed server-side, so it replaces the streamed text
       setOutputText(result);
       
       // Add to messages
@@ -214,6 +285,14 @@ export function useDocumentProcessor() {
       setMessages(prev => [...prev, userMessage, assistantMessage]);
       
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Whatever streamed in before the cancel stays in the output
+        toast({
+          title: "Processing cancelled",
+          description: "The text received so far has been kept."
+        });
+        return;
+      }
       console.error('Error processing document:', error);
       toast({
         title: "Processing failed",
@@ -221,9 +300,12 @@ export function useDocumentProcessor() {
         variant: "destructive"
       });
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setProcessing(false);
+      setIsStreaming(false);
+      setChunkProgress(null);
     }
-  }, [inputText, contentSource, useContentSource, llmProvider, processText, toast]);
+  }, [inputText, contentSource, useContentSource, llmProvider, generationSettings, processText, toast]);
 
   // Process dialogue command with conversation memory
   const processDialogueCommand = useCallback(async (userInput: string) => {
@@ -270,41 +352,54 @@ export function useDocumentProcessor() {
 ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `OUTPUT DOCUMENT:\n${outputExcerpt}\n\n` : ''}`;
       }
 
-      // Use new chat endpoint with conversation memory
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: userInput,
-          conversationHistory,
-          llmProvider,
-          contextDocument: contextDocument || undefined
-        })
+      // Use streaming chat endpoint with conversation memory
+      let streamedText = '';
+      const data = await streamRequest<{ result: string; provider?: string }>('/api/chat/stream', {
+        message: userInput,
+        conversationHistory,
+        llmProvider,
+        contextDocument: contextDocument || undefined,
+        ...generationSettings
+      }, (token) => {
+        streamedText += token;
+        const content = streamedText;
+        setDialogueMessages(prev => prev.map(msg => 
+          msg.id === assistantMessageId
+            ? { ...msg, content, streaming: true }
+            : msg
+        ));
       });
 
-      if (!response.ok) {
-        throw new Error(`Chat API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      // Update assistant message with the response
+      // Update assistant message with the final response
       setDialogueMessages(prev => prev.map(msg => 
         msg.id === assistantMessageId
-          ? { ...msg, content: data.response }
+          ? { ...msg, content: data.result, streaming: false }
           : msg
       ));
+      const notice = fallbackNotice(llmProvider, data.provider);
+      if (notice) toast(notice);
 
     } catch (error: any) {
       console.error('Error processing dialogue:', error);
       
       setDialogueMessages(prev => prev.map(msg => 
         msg.id === assistantMessageId
-          ? { ...msg, content: `Sorry, I encountered an error: ${error?.message || 'Unknown error'}` }
+          ? { ...msg, content: `Sorry, I encountered an error: ${error?.message || 'Unknown error'}`, streaming: false }
           : msg
       ));
     }
-  }, [llmProvider, dialogueMessages, inputText, outputText, setDialogueMessages]);
+  }, [llmProvider, generationSettings, dialogueMessages, inputText, outputText, setDialogueMessages, toast]);
+
+  // Keeps an uploaded file's text in the document library. Failing to save it
+  // there doesn't fail the upload.
+  const saveUploadToLibrary = useCallback(async (filename: string, content: string) => {
+    try {
+      await saveDocument({ filename, content, source: 'upload' });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    } catch (error) {
+      console.error('Error saving upload to the library:', error);
+    }
+  }, []);
 
   // File upload handlers
   const handleInputFileUpload = useCallback(async (file: File) => {
@@ -367,6 +462,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
       }
       
       setInputText(extractedText);
+      saveUploadToLibrary(file.name, extractedText);
       
       toast({
         title: "File uploaded successfully",
@@ -380,7 +476,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [toast, saveUploadToLibrary]);
 
   const handleContentSourceFileUpload = useCallback(async (file: File) => {
     try {
@@ -432,6 +528,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
       
       // Always set as content source regardless of mode - simplify logic
       setContentSource(result.text);
+      saveUploadToLibrary(file.name, result.text);
       
       // Also set as style source if that mode is enabled
       if (useStyleSource) {
@@ -450,7 +547,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         variant: "destructive"
       });
     }
-  }, [toast, useContentSource, useStyleSource]);
+  }, [toast, useContentSource, useStyleSource, saveUploadToLibrary]);
 
   const handleMultipleContentSourceFileUpload = useCallback(async (files: File[]) => {
     // Handle multiple file uploads by concatenating all content
@@ -499,6 +596,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         }
         
         if (result && result.text) {
+          saveUploadToLibrary(file.name, result.text);
           combinedText += (combinedText ? '\n\n--- ' + file.name + ' ---\n\n' : '') + result.text;
         }
       } catch (error) {
@@ -515,7 +613,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         description: `${files.length} files processed and combined`,
       });
     }
-  }, [toast]);
+  }, [toast, saveUploadToLibrary]);
 
   const handleAudioTranscription = useCallback(async (file: File) => {
     try {
@@ -744,8 +842,18 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
   const processSelectedChunks = useCallback(async (
     selectedIndices: number[],
     mode: 'rewrite' | 'add' | 'both',
-    additionalChunks: number = 0
+    additionalChunks: number = 0,
+    rollingContext: boolean = false
   ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    let completedChunks = 0;
+    // With rolling context on, chunks are rewritten through /api/process-chunk,
+    // which hands a running summary, the previous chunk's ending and the terms
+    // defined so far from each chunk to the next
+    const chunkEndpoint = rollingContext ? '/api/process-chunk' : '/api/process-text';
+    let context: RollingContext | undefined;
     try {
       console.log('Processing chunks:', { selectedIndices, mode, additionalChunks, documentChunks: documentChunks.length });
       setShowChunkSelector(false);
@@ -753,14 +861,17 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
       
       // Clear output and start fresh
       setOutputText('');
+      const failedChunks: Array<Pick<ChunkError, 'chunkIndex' | 'message'>> = [];
       
       if (mode === 'rewrite' && selectedIndices.length > 0) {
         // Process each chunk individually and stream results
         console.log('Rewrite mode: processing', selectedIndices.length, 'chunks one by one');
         
         for (let i = 0; i < selectedIndices.length; i++) {
+          if (signal.aborted) break;
           const chunkIndex = selectedIndices[i];
           const chunkText = documentChunks[chunkIndex];
+          setChunkProgress({ completed: i, total: selectedIndices.length });
           
           console.log(`Processing chunk ${i + 1}/${selectedIndices.length} (index ${chunkIndex})`);
           
@@ -768,7 +879,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
           setOutputText(prev => prev + `\n\n[Processing chunk ${i + 1}/${selectedIndices.length}...]\n\n`);
           
           try {
-            const response = await fetch('/api/process-text', {
+            const response = await fetch(chunkEndpoint, {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -780,8 +891,11 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
                 useContentSource,
                 styleSource,
                 useStyleSource,
-                llmProvider
+                llmProvider,
+                ...generationSettings,
+                ...(rollingContext && { chunkIndex: i, totalChunks: selectedIndices.length, rollingContext, context })
               }),
+              signal,
             });
             
             if (!response.ok) {
@@ -790,6 +904,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
             
             const data = await response.json();
             const processedChunk = data.result;
+            context = data.context;
             
             console.log('Processed chunk result:', processedChunk ? processedChunk.substring(0, 200) + '...' : 'EMPTY');
             
@@ -805,11 +920,15 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
               return newText;
             });
             
+            completedChunks++;
             console.log(`Completed chunk ${i + 1}/${selectedIndices.length}`);
             
           } catch (chunkError: any) {
+            // Drop the progress marker; a failure is reported once all chunks are done
+            setOutputText(prev => prev.split('\n').filter(line => !line.includes('[Processing chunk')).join('\n').trim());
+            if (signal.aborted) break;
             console.error(`Error processing chunk ${chunkIndex}:`, chunkError);
-            setOutputText(prev => prev + `\n\n[Error processing chunk ${i + 1}: ${chunkError.message}]\n\n`);
+            failedChunks.push({ chunkIndex, message: chunkError.message });
           }
         }
         
@@ -838,8 +957,10 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
             useContentSource,
             styleSource,
             useStyleSource,
-            llmProvider
+            llmProvider,
+            ...generationSettings
           }),
+          signal,
         });
         
         if (!response.ok) {
@@ -866,13 +987,15 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         // Process selected chunks one by one
         if (selectedIndices.length > 0) {
           for (let i = 0; i < selectedIndices.length; i++) {
+            if (signal.aborted) break;
             const chunkIndex = selectedIndices[i];
             const chunkText = documentChunks[chunkIndex];
+            setChunkProgress({ completed: i, total: selectedIndices.length });
             
             console.log(`Rewriting chunk ${i + 1}/${selectedIndices.length} (index ${chunkIndex})`);
             
             try {
-              const rewriteResponse = await fetch('/api/process-text', {
+              const rewriteResponse = await fetch(chunkEndpoint, {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
@@ -882,8 +1005,11 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
                   instructions: rewriteInstructions,
                   contentSource,
                   useContentSource,
-                  llmProvider
+                  llmProvider,
+                  ...generationSettings,
+                  ...(rollingContext && { chunkIndex: i, totalChunks: selectedIndices.length, rollingContext, context })
                 }),
+                signal,
               });
               
               if (!rewriteResponse.ok) {
@@ -891,6 +1017,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
               }
               
               const rewriteData = await rewriteResponse.json();
+              context = rewriteData.context;
               
               // Update the specific chunk in working content
               workingContent[chunkIndex] = rewriteData.result;
@@ -898,18 +1025,20 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
               // Update the output with the new version
               setOutputText(workingContent.join('\n\n'));
               
+              completedChunks++;
               console.log(`Completed rewriting chunk ${i + 1}/${selectedIndices.length}`);
               
             } catch (chunkError: any) {
+              if (signal.aborted) break;
+              // Keep the original text for this chunk and report the failure at the end
               console.error(`Error rewriting chunk ${chunkIndex}:`, chunkError);
-              workingContent[chunkIndex] = `[Error rewriting chunk: ${chunkError.message}]`;
-              setOutputText(workingContent.join('\n\n'));
+              failedChunks.push({ chunkIndex, message: chunkError.message });
             }
           }
         }
         
         // Then add new chunks if requested
-        if (additionalChunks > 0) {
+        if (additionalChunks > 0 && !signal.aborted) {
           setOutputText(prev => prev + `\n\n[Generating ${additionalChunks} additional chunks...]\n\n`);
           
           const currentText = workingContent.join('\n\n');
@@ -925,8 +1054,10 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
               instructions: `Generate ${additionalChunks} new section(s) based on the provided document`,
               contentSource,
               useContentSource,
-              llmProvider
+              llmProvider,
+              ...generationSettings
             }),
+            signal,
           });
           
           if (!addResponse.ok) {
@@ -944,12 +1075,34 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         }
       }
       
-      toast({
-        title: "Chunk processing completed",
-        description: `Successfully processed ${selectedIndices.length} chunks in ${mode} mode`,
-      });
+      if (signal.aborted) {
+        toast({
+          title: "Processing cancelled",
+          description: `Kept ${completedChunks} of ${selectedIndices.length} processed chunks`,
+        });
+      } else if (failedChunks.length > 0) {
+        toast({
+          title: `${failedChunks.length} of ${selectedIndices.length} chunks failed`,
+          description: describeChunkErrors(failedChunks),
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Chunk processing completed",
+          description: `Successfully processed ${selectedIndices.length} chunks in ${mode} mode`,
+        });
+      }
       
     } catch (error: any) {
+      if (signal.aborted) {
+        // Cancelled while generating new sections; keep what is already there
+        setOutputText(prev => prev.split('\n').filter(line => !line.includes('[Generating')).join('\n').trim());
+        toast({
+          title: "Processing cancelled",
+          description: `Kept ${completedChunks} of ${selectedIndices.length} processed chunks`,
+        });
+        return;
+      }
       console.error('Error processing chunks:', error);
       toast({
         title: "Processing failed",
@@ -957,11 +1110,16 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         variant: "destructive"
       });
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setProcessing(false);
+      setChunkProgress(null);
     }
-  }, [documentChunks, rewriteInstructions, contentSource, useContentSource, llmProvider, toast]);
+  }, [documentChunks, rewriteInstructions, contentSource, useContentSource, llmProvider, generationSettings, toast]);
 
+  // Aborts the requests in flight; the server stops calling the LLM when the
+  // connection closes, and whatever output arrived so far is kept
   const cancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
     setProcessing(false);
   }, []);
 
@@ -983,7 +1141,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
         instructions,
         contentSource: "",
         useContentSource: false,
-        llmProvider
+        llmProvider,
+        ...generationSettings
       });
       
       setOutputText(response);
@@ -1002,7 +1161,7 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     } finally {
       setIsRewriting(false);
     }
-  }, [llmProvider, processText, toast]);
+  }, [llmProvider, generationSettings, processText, toast]);
 
   // Automatic AI detection with debouncing
   useEffect(() => {
@@ -1052,6 +1211,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     dialogueMessages,
     setDialogueMessages,
     processing,
+    isStreaming,
+    chunkProgress,
     
     // Core functions
     processDocument,
@@ -1098,6 +1259,8 @@ ${inputExcerpt ? `INPUT DOCUMENT:\n${inputExcerpt}\n\n` : ''}${outputExcerpt ? `
     // LLM Provider
     llmProvider,
     setLLMProvider,
+    generationSettings,
+    setGenerationSettings,
     
     // Chunk processing
     documentChunks,
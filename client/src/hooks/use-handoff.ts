@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+
+// Hands a value to another page: the sender stores it under handoff:<key>
+// and navigates there, and the page takes it when it mounts - or straight
+// away, through the event, when it is already open.
+const HANDOFF_EVENT = 'handoff';
+
+export function handOff(key: string, value: unknown): void {
+  localStorage.setItem(`handoff:${key}`, JSON.stringify(value));
+  window.dispatchEvent(new Event(HANDOFF_EVENT));
+}
+
+// Calls onHandoff with each value handed to this key while mounted
+export function useHandoff<T>(key: string, onHandoff: (value: T) => void): void {
+  const callback = useRef(onHandoff);
+  callback.current = onHandoff;
+
+  useEffect(() => {
+    const take = () => {
+      const stored = localStorage.getItem(`handoff:${key}`);
+      if (stored === null) return;
+      localStorage.removeItem(`handoff:${key}`); // Clear after reading
+      callback.current(JSON.parse(stored) as T);
+    };
+    take();
+    window.addEventListener(HANDOFF_EVENT, take);
+    return () => window.removeEventListener(HANDOFF_EVENT, take);
+  }, [key]);
+}
@@ -2,6 +2,18 @@ import { apiRequest } from "./queryClient";
 import type { 
   ProcessTextRequest, 
   ProcessChunkRequest,
+  RollingContext,
+  CompareRequest,
+  CompareResponse,
+  JsonSchema,
+  StructuredResponse,
+  Job,
+  JobListFilter,
+  JobListPage,
+  JobRevision,
+  RevisionDiff,
+  DocumentSource,
+  LibraryDocument,
   AIDetectionResult, 
   SearchResult,
   EmailData,
@@ -22,16 +34,130 @@ export async function processText(data: ProcessTextRequest): Promise<string> {
   return result.result;
 }
 
+// Process text into JSON matching a schema (structured output)
+export async function processStructured(data: ProcessTextRequest & { outputSchema: JsonSchema }): Promise<StructuredResponse> {
+  const response = await apiRequest("POST", "/api/process-text", data);
+  return await response.json();
+}
+
 // Process a chunk of text for large documents
 export async function processChunk(data: ProcessChunkRequest): Promise<{
   result: string;
   chunkIndex: number;
   totalChunks: number;
+  // The provider that answered, which differs from the requested one after a fallback
+  provider: string;
+  // Context for the next chunk, when rollingContext was requested
+  context?: RollingContext;
 }> {
   const response = await apiRequest("POST", "/api/process-chunk", data);
   return await response.json();
 }
 
+// Run the same input and instructions on two to four providers or models at once
+export async function compareProviders(data: CompareRequest): Promise<CompareResponse> {
+  const response = await apiRequest("POST", "/api/compare", data);
+  return await response.json();
+}
+
+// Queue process-text as a background job, for documents that take longer
+// than a request can stay open
+export async function submitProcessJob(data: ProcessTextRequest): Promise<Job> {
+  const response = await apiRequest("POST", "/api/jobs", { mode: "process", ...data });
+  return await response.json();
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+  return await response.json();
+}
+
+// One page of job summaries, newest first
+export async function listJobs(filter: JobListFilter = {}): Promise<JobListPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const query = params.toString();
+  const response = await apiRequest("GET", `/api/jobs${query ? `?${query}` : ""}`);
+  return await response.json();
+}
+
+export async function cancelJob(jobId: string): Promise<Job> {
+  const response = await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+  return await response.json();
+}
+
+// Run the chunks of a rewrite job that didn't complete, and rebuild its output
+export async function resumeJob(jobId: string): Promise<Job> {
+  const response = await apiRequest("POST", `/api/jobs/${jobId}/resume`);
+  return await response.json();
+}
+
+export async function getJobRevision(jobId: string, revision: number): Promise<JobRevision> {
+  const response = await apiRequest("GET", `/api/jobs/${jobId}/revisions/${revision}`);
+  return await response.json();
+}
+
+// What a revision changed in its input, or since revision `against`
+export async function diffJobRevision(jobId: string, revision: number, against?: number): Promise<RevisionDiff> {
+  const query = against ? `?against=${against}` : "";
+  const response = await apiRequest("GET", `/api/jobs/${jobId}/revisions/${revision}/diff${query}`);
+  return await response.json();
+}
+
+// Make a revision's output the job's output again
+export async function restoreJobRevision(jobId: string, revision: number): Promise<Job> {
+  const response = await apiRequest("POST", `/api/jobs/${jobId}/revisions/${revision}/restore`);
+  return await response.json();
+}
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Polls a job until it has finished and returns it, passing each state to
+// onUpdate on the way. Aborting the signal cancels the job on the server and
+// resolves with the job as cancelled, with whatever output it kept.
+export async function waitForJob(
+  jobId: string,
+  options: { signal?: AbortSignal; onUpdate?: (job: Job) => void; intervalMs?: number } = {}
+): Promise<Job> {
+  const { signal, onUpdate, intervalMs = JOB_POLL_INTERVAL_MS } = options;
+  let cancelled = false;
+  while (true) {
+    if (signal?.aborted && !cancelled) {
+      cancelled = true;
+      await cancelJob(jobId);
+    }
+    const job = await getJob(jobId);
+    onUpdate?.(job);
+    if (job.status === "completed" || job.status === "failed" || job.status === "cancelled") {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+// Save text to the document library
+export async function saveDocument(data: { filename: string; content: string; source: DocumentSource; aiScore?: number }): Promise<LibraryDocument> {
+  const response = await apiRequest("POST", "/api/documents", data);
+  return await response.json();
+}
+
+export async function getDocument(id: string): Promise<LibraryDocument> {
+  const response = await apiRequest("GET", `/api/documents/${id}`);
+  return await response.json();
+}
+
+export async function updateDocument(id: string, data: { filename?: string; content?: string }): Promise<LibraryDocument> {
+  const response = await apiRequest("PATCH", `/api/documents/${id}`, data);
+  return await response.json();
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await apiRequest("DELETE", `/api/documents/${id}`);
+}
+
 // Detect if text was AI-generated
 export async function detectAI(text: string, llmProvider: string = "openai"): Promise<AIDetectionResult> {
   const response = await apiRequest("POST", "/api/detect-ai", { text, llmProvider });
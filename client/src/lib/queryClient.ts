@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ChunkProgress } from "@/types";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -11,18 +12,77 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  signal?: AbortSignal,
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
+    signal,
   });
 
   await throwIfResNotOk(res);
   return res;
 }
 
+// POST to one of the SSE streaming endpoints. Each `token` event is passed to
+// onToken as it arrives, and each `progress` event to onProgress; resolves
+// with the payload of the final `done` event. Aborting the signal closes the
+// stream, which stops the work on the server.
+export async function streamRequest<T = { result: string }>(
+  url: string,
+  data: unknown,
+  onToken: (token: string) => void,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: ChunkProgress) => void } = {},
+): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let payload = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) payload += line.slice(5).trim();
+      }
+      if (!payload) continue;
+
+      const parsed = JSON.parse(payload);
+      if (event === "token") onToken(parsed.text);
+      else if (event === "progress") onProgress?.(parsed);
+      else if (event === "done") return parsed as T;
+      else if (event === "error") throw new Error(parsed.error);
+    }
+  }
+
+  throw new Error("Stream ended before the response was complete");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
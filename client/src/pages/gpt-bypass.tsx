@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { GPTBypassInterface } from '@/components/gpt-bypass/GPTBypassInterface';
+import { useHandoff } from '@/hooks/use-handoff';
 
 export default function GPTBypassPage() {
   const [inputFromMain, setInputFromMain] = useState<string>('');
+  const [jobFromMain, setJobFromMain] = useState<{ id: string }>();
+
+  // A job picked in the search box
+  useHandoff<{ id: string }>('job', setJobFromMain);
 
   // Handle localStorage handoff on mount
   useEffect(() => {
@@ -15,7 +20,7 @@ export default function GPTBypassPage() {
 
   return (
     <div className="container mx-auto px-4 py-8">
-      <GPTBypassInterface inputFromMain={inputFromMain} />
+      <GPTBypassInterface inputFromMain={inputFromMain} jobFromMain={jobFromMain} />
     </div>
   );
 }
\ No newline at end of file
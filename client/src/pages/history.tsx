@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ExternalLink, LoaderIcon, RotateCcw, Square } from 'lucide-react';
+import { RevisionTimeline } from '@/components/gpt-bypass/RevisionTimeline';
+import { useToast } from '@/hooks/use-toast';
+import { handOff } from '@/hooks/use-handoff';
+import { cancelJob, getJob, listJobs, resumeJob } from '@/lib/api';
+import type { Job, JobListFilter, JobMode, JobStatus, JobSummary } from '@/types';
+
+const PAGE_SIZE = 25;
+const DEBOUNCE_MS = 300;
+const ANY = 'any';
+
+const STATUS_VARIANTS: Record<JobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  processing: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'outline'
+};
+
+const STATUSES = Object.keys(STATUS_VARIANTS) as JobStatus[];
+
+function StatusBadge({ status }: { status: JobStatus }) {
+  return <Badge variant={STATUS_VARIANTS[status] ?? 'outline'}>{status}</Badge>;
+}
+
+function isRunning(job: { status: JobStatus }) {
+  return job.status === 'queued' || job.status === 'processing';
+}
+
+// A date input's day, as the start of that day in local time
+function startOfDay(date: string): string | undefined {
+  return date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+}
+
+// The listing's `to` is inclusive
+function endOfDay(date: string): string | undefined {
+  return date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+}
+
+function JobDetail({ jobId, onChanged }: { jobId: string; onChanged: () => void }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { data: job, refetch } = useQuery<Job>({
+    queryKey: [`/api/jobs/${jobId}`],
+    // Running jobs move on while the sheet is open
+    staleTime: 0,
+    refetchInterval: (query) => (query.state.data && isRunning(query.state.data) ? 2000 : false),
+  });
+  const [isActing, setIsActing] = useState(false);
+
+  if (!job) {
+    return <p className="text-sm text-slate-500">Loading...</p>;
+  }
+
+  const act = async (action: (id: string) => Promise<Job>, failure: string) => {
+    setIsActing(true);
+    try {
+      await action(job.id);
+      await refetch();
+      onChanged();
+    } catch (error: any) {
+      toast({ title: failure, description: error?.message || failure, variant: 'destructive' });
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  const canResume = job.mode === 'rewrite' && !isRunning(job) &&
+    !!job.chunks?.some(chunk => chunk.status !== 'completed');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <StatusBadge status={job.status} />
+        <Badge variant="outline">{job.mode}</Badge>
+        <span className="text-slate-500">
+          {job.provider}
+          {job.providers?.length ? ` (answered by ${job.providers.join(', ')})` : ''}
+        </span>
+        {job.totalChunks !== null && (
+          <span className="text-slate-500">{job.completedChunks}/{job.totalChunks} chunks</span>
+        )}
+      </div>
+
+      {job.error && (
+        <p className="text-sm text-red-600 whitespace-pre-wrap" data-testid="job-error">{job.error}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            handOff('job', { id: job.id });
+            setLocation('/gpt-bypass');
+          }}
+          data-testid="button-open-job"
+        >
+          <ExternalLink className="h-4 w-4 mr-1" />
+          Open in GPT Bypass
+        </Button>
+        {isRunning(job) && (
+          <Button size="sm" variant="outline" disabled={isActing} onClick={() => act(cancelJob, 'Cancel failed')}>
+            <Square className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+        {canResume && (
+          <Button size="sm" variant="outline" disabled={isActing} onClick={() => act(resumeJob, 'Resume failed')}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Resume
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label>Input</Label>
+        <div className="max-h-64 overflow-y-auto rounded-md border p-3 text-sm whitespace-pre-wrap">{job.inputText}</div>
+      </div>
+      <div className="space-y-1">
+        <Label>Output</Label>
+        <div className="max-h-64 overflow-y-auto rounded-md border p-3 text-sm whitespace-pre-wrap">
+          {job.outputText || <span className="text-slate-500">No output yet.</span>}
+        </div>
+      </div>
+
+      {job.mode === 'rewrite' && (
+        <RevisionTimeline
+          jobId={job.id}
+          refreshKey={job.updatedAt}
+          disabled={isRunning(job)}
+          onRestore={() => {
+            refetch();
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Every background job, newest first, a page at a time. Filters narrow the
+// list on the server; picking a row opens the job with its text and revisions.
+export default function History() {
+  const [status, setStatus] = useState(ANY);
+  const [provider, setProvider] = useState(ANY);
+  const [mode, setMode] = useState(ANY);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: providers = [] } = useQuery<{ id: string; label: string }[]>({
+    queryKey: ['/api/llm-providers'],
+  });
+
+  const filter: JobListFilter = {
+    status: status === ANY ? undefined : [status as JobStatus],
+    provider: provider === ANY ? undefined : provider,
+    mode: mode === ANY ? undefined : mode as JobMode,
+    from: startOfDay(from),
+    to: endOfDay(to),
+    q: debouncedSearch || undefined,
+    limit: PAGE_SIZE
+  };
+
+  const { data, isLoading, isError, error, fetchNextPage, hasNextPage, isFetchingNextPage, refetch } = useInfiniteQuery({
+    queryKey: ['/api/jobs', filter],
+    queryFn: ({ pageParam }) => listJobs({ ...filter, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Jobs start and finish while the page is open
+    staleTime: 0,
+  });
+  const jobs: JobSummary[] = data?.pages.flatMap(page => page.jobs) ?? [];
+
+  const hasFilters = status !== ANY || provider !== ANY || mode !== ANY || from || to || search;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>Job History</CardTitle>
+          <CardDescription>
+            Rewrites and processing jobs, newest first. Open one to see its text and revisions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-6">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="history-search">Text</Label>
+              <Input
+                id="history-search"
+                placeholder="Search input and output..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                data-testid="input-history-search"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger data-testid="select-history-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any status</SelectItem>
+                  {STATUSES.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Provider</Label>
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger data-testid="select-history-provider"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any provider</SelectItem>
+                  {providers.map(({ id, label }) => <SelectItem key={id} value={id}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-from">From</Label>
+              <Input id="history-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to">To</Label>
+              <Input id="history-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Select value={mode} onValueChange={setMode}>
+              <SelectTrigger className="w-40" data-testid="select-history-mode"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any kind</SelectItem>
+                <SelectItem value="rewrite">Rewrites</SelectItem>
+                <SelectItem value="process">Processing</SelectItem>
+              </SelectContent>
+            </Select>
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setStatus(ANY);
+                  setProvider(ANY);
+                  setMode(ANY);
+                  setFrom('');
+                  setTo('');
+                  setSearch('');
+                }}
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-slate-500">Loading...</p>
+          ) : isError ? (
+            <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Failed to load jobs'}</p>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              {hasFilters ? 'No jobs match the filters.' : 'No jobs yet. Rewrites and queued processing jobs appear here.'}
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead className="text-right">Chunks</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map(job => (
+                    <TableRow
+                      key={job.id}
+                      className="cursor-pointer"
+                      onClick={() => setOpenJobId(job.id)}
+                      data-testid={`job-row-${job.id}`}
+                    >
+                      <TableCell className="max-w-xs">
+                        <div className="truncate font-medium">{job.title || 'Untitled'}</div>
+                        <div className="text-xs text-slate-500">
+                          {job.inputLength} chars in{job.outputLength !== null ? `, ${job.outputLength} out` : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell><StatusBadge status={job.status} /></TableCell>
+                      <TableCell>{job.mode}</TableCell>
+                      <TableCell>{job.provider}</TableCell>
+                      <TableCell className="text-right">
+                        {job.totalChunks !== null ? `${job.completedChunks}/${job.totalChunks}` : '-'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(job.createdAt).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} data-testid="button-load-more-jobs">
+                    {isFetchingNextPage && <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={openJobId !== null} onOpenChange={(isOpen) => !isOpen && setOpenJobId(null)}>
+        <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Job details</SheetTitle>
+            <SheetDescription>{jobs.find(job => job.id === openJobId)?.title}</SheetDescription>
+          </SheetHeader>
+          <div className="mt-4">
+            {openJobId && <JobDetail jobId={openJobId} onChanged={() => refetch()} />}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
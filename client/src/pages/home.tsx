@@ -12,8 +12,11 @@ import { SpecialContentPopup } from "@/components/editor/SpecialContentPopup";
 import { ProcessingStatusBar } from "@/components/editor/ProcessingStatusBar";
 import { EditorToolbar } from "@/components/editor/EditorToolbar";
 import { ChunkSelector } from "@/components/editor/ChunkSelector";
+import { ComparePanel } from "@/components/editor/ComparePanel";
+import { StructuredOutputPanel } from "@/components/editor/StructuredOutputPanel";
 import { GPTBypassInterface } from "@/components/gpt-bypass/GPTBypassInterface";
-import { useDocumentProcessor, LLMProvider } from "@/hooks/use-document-processor";
+import { useDocumentProcessor, LLMProvider, fallbackNotice } from "@/hooks/use-document-processor";
+import { streamRequest, queryClient } from "@/lib/queryClient";
 import { useFileOperations } from "@/hooks/use-file-operations";
 import { 
   Dialog, 
@@ -25,8 +28,11 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { searchOnline, extractTextFromImage } from "@/lib/api";
+import { searchOnline, extractTextFromImage, getDocument, saveDocument } from "@/lib/api";
+import type { LibraryTarget } from "@/types";
+import { X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useHandoff } from "@/hooks/use-handoff";
 
 export default function Home() {
   const {
@@ -49,6 +55,8 @@ export default function Home() {
     dialogueMessages,
     setDialogueMessages,
     processing,
+    isStreaming,
+    chunkProgress,
     processDocument,
     processSelectedDocumentChunks,
     cancelProcessing,
@@ -77,6 +85,8 @@ export default function Home() {
     setShowSpecialContent,
     llmProvider,
     setLLMProvider,
+    generationSettings,
+    setGenerationSettings,
     documentChunks,
     showChunkSelector,
     setShowChunkSelector,
@@ -110,6 +120,8 @@ export default function Home() {
   } = useFileOperations();
 
   const [searchDialogOpen, setSearchDialogOpen] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [structuredMode, setStructuredMode] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
   const [voiceDialogOpen, setVoiceDialogOpen] = useState(false);
@@ -122,6 +134,56 @@ export default function Home() {
   const { toast } = useToast();
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const audioChunks = useRef<BlobPart[]>([]);
+  // Names of the library documents in use as content and style sources
+  const [sourceNames, setSourceNames] = useState<{ content?: string; style?: string }>({});
+
+  // Opens a document handed over by the library page or the search box
+  useHandoff<{ id: string; target: LibraryTarget }>('document', ({ id, target }) => {
+    getDocument(id)
+      .then(document => {
+        if (target === 'output') {
+          setOutputText(document.content);
+        } else if (target === 'content') {
+          setContentSource(document.content);
+          setUseContentSource(true);
+          setSourceNames(names => ({ ...names, content: document.filename }));
+        } else if (target === 'style') {
+          setStyleSource(document.content);
+          setUseStyleSource(true);
+          setSourceNames(names => ({ ...names, style: document.filename }));
+        } else {
+          setInputText(document.content);
+        }
+        toast({ title: "Document opened", description: document.filename });
+      })
+      .catch((error: any) => {
+        toast({
+          title: "Could not open document",
+          description: error?.message || "Failed to load the document",
+          variant: "destructive"
+        });
+      });
+  });
+
+  // Saves the output to the library, named after its first line
+  const handleSaveToLibrary = async (text: string) => {
+    const firstLine = text.trim().split('\n')[0].replace(/^#+\s*/, '').trim();
+    try {
+      const document = await saveDocument({
+        filename: firstLine.slice(0, 80) || `Output ${new Date().toLocaleString()}`,
+        content: text,
+        source: 'output'
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({ title: "Saved to library", description: document.filename });
+    } catch (error: any) {
+      toast({
+        title: "Save failed",
+        description: error?.message || "Failed to save the document",
+        variant: "destructive"
+      });
+    }
+  };
 
   // Handle online search
   const handleSearch = async () => {
@@ -344,6 +406,8 @@ export default function Home() {
               <option value="anthropic">Anthropic</option>
               <option value="perplexity">Perplexity</option>
               <option value="deepseek">DeepSeek</option>
+              <option value="custom">Custom endpoint</option>
+              {import.meta.env.DEV && <option value="mock">Mock (offline)</option>}
             </select>
             <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-700">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -365,6 +429,8 @@ export default function Home() {
               isProcessing={processing}
               llmProvider={llmProvider}
               setLLMProvider={(provider: string) => setLLMProvider(provider as any)}
+              generationSettings={generationSettings}
+              setGenerationSettings={setGenerationSettings}
               onInstructionsSelect={handleInstructionSelect}
               currentInstructions={messages.filter(msg => msg.role === 'user').pop()?.content || ''}
               enableSynthesisMode={enableSynthesisMode}
@@ -376,6 +442,28 @@ export default function Home() {
               onClearAll={resetAll}
             />
             
+            {/* Sources opened from the library, which processing uses */}
+            {((useContentSource && contentSource) || (useStyleSource && styleSource)) && (
+              <div className="mb-4 flex flex-wrap gap-2 text-sm" data-testid="active-sources">
+                {useContentSource && contentSource && (
+                  <span className="flex items-center gap-1 rounded-md border px-2 py-1">
+                    Content source: {sourceNames.content ?? 'custom text'}
+                    <button onClick={() => { clearContentSource(); setSourceNames(names => ({ ...names, content: undefined })); }} aria-label="Stop using the content source">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
+                {useStyleSource && styleSource && (
+                  <span className="flex items-center gap-1 rounded-md border px-2 py-1">
+                    Style source: {sourceNames.style ?? 'custom text'}
+                    <button onClick={() => { clearStyleSource(); setSourceNames(names => ({ ...names, style: undefined })); }} aria-label="Stop using the style source">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Text Processing Section */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
               {/* Input Editor */}
@@ -411,22 +499,65 @@ export default function Home() {
                 }}
                 onSendEmail={sendEmailWithDocument}
                 onRewrite={handleRewrite}
+                onSaveToLibrary={handleSaveToLibrary}
                 isDetecting={isOutputDetecting}
                 isSendingEmail={isSendingEmail}
                 isRewriting={isRewriting}
+                isStreaming={isStreaming}
                 inputText={inputText}
                 outputAIResult={outputAIResult}
               />
             </div>
             
+            {/* Compare Mode - the same request on several providers side by side */}
+            {/* Structured Output - JSON matching a schema instead of free text */}
+            <div className="mt-4 flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setStructuredMode(!structuredMode)}
+                data-testid="button-toggle-structured"
+              >
+                {structuredMode ? 'Close structured output' : 'Structured output'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setCompareMode(!compareMode)}
+                data-testid="button-toggle-compare"
+              >
+                {compareMode ? 'Close comparison' : 'Compare providers'}
+              </Button>
+            </div>
+            {compareMode && (
+              <ComparePanel
+                inputText={inputText}
+                instructions={rewriteInstructions.trim() || lastUsedInstructions.trim() || "Rewrite well"}
+                contentSource={contentSource}
+                useContentSource={useContentSource}
+                styleSource={styleSource}
+                useStyleSource={useStyleSource}
+                generationSettings={generationSettings}
+                onPromote={setOutputText}
+              />
+            )}
+            {structuredMode && (
+              <StructuredOutputPanel
+                inputText={inputText}
+                instructions={rewriteInstructions}
+                contentSource={contentSource}
+                useContentSource={useContentSource}
+                llmProvider={llmProvider}
+                generationSettings={generationSettings}
+              />
+            )}
+            
             {/* Chunk Selector - shown when document is divided into chunks */}
             {showChunkSelector && documentChunks.length > 0 && (
               <ChunkSelector
                 chunks={documentChunks}
-                onProcessSelected={async (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number) => {
+                onProcessSelected={async (selectedIndices: number[], mode: 'rewrite' | 'add' | 'both', additionalChunks?: number, rollingContext?: boolean) => {
                   try {
                     // Use the correct processSelectedChunks function from the hook
-                    await processSelectedChunks(selectedIndices, mode, additionalChunks || 0);
+                    await processSelectedChunks(selectedIndices, mode, additionalChunks || 0, rollingContext);
                     
                     // Update the final message
                     setMessages(prev => prev.map(msg => 
@@ -444,8 +575,13 @@ export default function Home() {
             
             {/* Processing Status Bar - shown only when processing */}
             {processing && (
-              <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                <div className="text-sm text-blue-600">Processing chunks...</div>
+              <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+                <div className="text-sm text-blue-600">
+                  Processing chunks...{chunkProgress && ` ${chunkProgress.completed} of ${chunkProgress.total} done`}
+                </div>
+                <Button variant="outline" size="sm" onClick={cancelProcessing} data-testid="button-cancel-processing">
+                  Cancel
+                </Button>
               </div>
             )}
             
@@ -506,36 +642,39 @@ export default function Home() {
                       content: msg.content
                     }));
 
-                  const response = await fetch('/api/chat', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                      message: userInput,
-                      conversationHistory,
-                      llmProvider,
-                      contextDocument: inputText || outputText || undefined
-                    })
+                  // Stream the reply into the placeholder as it arrives
+                  let streamedText = '';
+                  const data = await streamRequest<{ result: string; provider?: string }>('/api/chat/stream', {
+                    message: userInput,
+                    conversationHistory,
+                    llmProvider,
+                    contextDocument: inputText || outputText || undefined,
+                    ...generationSettings
+                  }, (token) => {
+                    streamedText += token;
+                    const content = streamedText;
+                    setDialogueMessages(prev => prev.map(msg => 
+                      msg.id === assistantMessageId
+                        ? { ...msg, content, streaming: true }
+                        : msg
+                    ));
                   });
-
-                  if (!response.ok) {
-                    throw new Error(`API Error: ${response.statusText}`);
-                  }
-
-                  const data = await response.json();
                   
-                  // Update assistant message with response
+                  // Update assistant message with the final response
                   setDialogueMessages(prev => prev.map(msg => 
                     msg.id === assistantMessageId
-                      ? { ...msg, content: data.response }
+                      ? { ...msg, content: data.result, streaming: false }
                       : msg
                   ));
+                  const notice = fallbackNotice(llmProvider, data.provider);
+                  if (notice) toast(notice);
 
                 } catch (error: any) {
                   console.error('Error processing dialogue:', error);
                   
                   setDialogueMessages(prev => prev.map(msg => 
                     msg.id === assistantMessageId
-                      ? { ...msg, content: `Sorry, I encountered an error: ${error?.message || 'Unknown error'}` }
+                      ? { ...msg, content: `Sorry, I encountered an error: ${error?.message || 'Unknown error'}`, streaming: false }
                       : msg
                   ));
                 }
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { FolderOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { handOff } from '@/hooks/use-handoff';
+import { queryClient } from '@/lib/queryClient';
+import { deleteDocument, saveDocument, updateDocument } from '@/lib/api';
+import type { DocumentSource, LibraryDocumentSummary, LibraryTarget } from '@/types';
+
+const SOURCE_LABELS: Record<DocumentSource, string> = {
+  upload: 'Upload',
+  output: 'Saved output',
+  manual: 'Added here'
+};
+
+const TARGET_LABELS: Record<LibraryTarget, string> = {
+  input: 'Open in input',
+  output: 'Open in output',
+  content: 'Use as content source',
+  style: 'Use as style source'
+};
+
+// Uploaded files and saved outputs. A document opens on the home page in the
+// input or output editor, or as the content or style source for processing.
+export default function Library() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { data: documents = [], isLoading } = useQuery<LibraryDocumentSummary[]>({
+    queryKey: ['/api/documents'],
+  });
+  const [filter, setFilter] = useState('');
+  const [renaming, setRenaming] = useState<LibraryDocumentSummary | null>(null);
+  const [newName, setNewName] = useState('');
+  const [addOpen, setAddOpen] = useState(false);
+  const [addName, setAddName] = useState('');
+  const [addContent, setAddContent] = useState('');
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+
+  const visible = documents.filter(document =>
+    document.filename.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  const open = (document: LibraryDocumentSummary, target: LibraryTarget) => {
+    handOff('document', { id: document.id, target });
+    setLocation('/');
+  };
+
+  const handleAdd = async () => {
+    try {
+      await saveDocument({ filename: addName.trim(), content: addContent, source: 'manual' });
+      refresh();
+      setAddOpen(false);
+      setAddName('');
+      setAddContent('');
+    } catch (error: any) {
+      toast({ title: 'Save failed', description: error?.message || 'Failed to save the document', variant: 'destructive' });
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    try {
+      await updateDocument(renaming.id, { filename: newName.trim() });
+      refresh();
+      setRenaming(null);
+    } catch (error: any) {
+      toast({ title: 'Rename failed', description: error?.message || 'Failed to rename the document', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (document: LibraryDocumentSummary) => {
+    if (!window.confirm(`Delete "${document.filename}" from the library?`)) return;
+    try {
+      await deleteDocument(document.id);
+      refresh();
+      toast({ title: 'Document deleted', description: document.filename });
+    } catch (error: any) {
+      toast({ title: 'Delete failed', description: error?.message || 'Failed to delete the document', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Document Library</CardTitle>
+              <CardDescription>
+                Uploaded files and saved outputs. Open one in the editor or use it as a content or style source.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setAddOpen(true)} data-testid="button-add-document">
+              <Plus className="h-4 w-4 mr-2" />
+              Add text
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Filter by name..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            data-testid="input-filter-documents"
+          />
+
+          {isLoading ? (
+            <p className="text-sm text-slate-500">Loading...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              {documents.length === 0
+                ? 'No documents yet. Uploads on the home page and outputs you save appear here.'
+                : 'No documents match the filter.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {visible.map(document => (
+                <li key={document.id} className="border rounded-lg p-3" data-testid={`document-${document.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{document.filename}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[document.source] ?? document.source}</Badge>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="sm" variant="outline" data-testid={`button-open-document-${document.id}`}>
+                            <FolderOpen className="h-4 w-4 mr-1" />
+                            Open
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {(Object.keys(TARGET_LABELS) as LibraryTarget[]).map(target => (
+                            <DropdownMenuItem key={target} onClick={() => open(document, target)}>
+                              {TARGET_LABELS[target]}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => {
+                          setRenaming(document);
+                          setNewName(document.filename);
+                        }}
+                        aria-label="Rename"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(document)} aria-label="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    {document.wordCount} words - {new Date(document.createdAt).toLocaleString()}
+                  </div>
+                  <p className="mt-1 text-sm text-slate-600 line-clamp-2">{document.preview}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add text to the library</DialogTitle>
+            <DialogDescription>Paste a document to keep it for later.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="add-document-name">Name</Label>
+              <Input id="add-document-name" value={addName} onChange={(e) => setAddName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="add-document-content">Text</Label>
+              <Textarea
+                id="add-document-content"
+                className="min-h-[200px]"
+                value={addContent}
+                onChange={(e) => setAddContent(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>Cancel</Button>
+            <Button onClick={handleAdd} disabled={!addName.trim() || !addContent.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={renaming !== null} onOpenChange={(isOpen) => !isOpen && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename document</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && newName.trim()) handleRename();
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={!newName.trim()}>Rename</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
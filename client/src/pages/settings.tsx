@@ -4,11 +4,16 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { UsagePanel } from '@/components/settings/UsagePanel';
 
 export default function Settings() {
   const [openaiKey, setOpenaiKey] = useState('');
   const [anthropicKey, setAnthropicKey] = useState('');
   const [perplexityKey, setPerplexityKey] = useState('');
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customModel, setCustomModel] = useState('');
+  const [customApiKey, setCustomApiKey] = useState('');
+  const [fallbackProviders, setFallbackProviders] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
@@ -24,6 +29,10 @@ export default function Settings() {
           openaiKey: openaiKey || undefined,
           anthropicKey: anthropicKey || undefined,
           perplexityKey: perplexityKey || undefined,
+          customBaseUrl: customBaseUrl || undefined,
+          customModel: customModel || undefined,
+          customApiKey: customApiKey || undefined,
+          fallbackProviders: fallbackProviders.trim() || undefined,
         }),
       });
 
@@ -36,6 +45,10 @@ export default function Settings() {
         setOpenaiKey('');
         setAnthropicKey('');
         setPerplexityKey('');
+        setCustomBaseUrl('');
+        setCustomModel('');
+        setCustomApiKey('');
+        setFallbackProviders('');
         // Reload the page to apply new environment variables
         window.location.reload();
       } else {
@@ -140,6 +153,62 @@ export default function Settings() {
               </p>
             </div>
             
+            <div className="grid gap-4 border-t pt-6">
+              <div>
+                <h3 className="font-semibold">Custom Endpoint</h3>
+                <p className="text-sm text-slate-500">
+                  Any OpenAI-compatible server (llama.cpp, vLLM, Ollama, LM Studio).
+                  Select "Custom endpoint" as the provider to use it.
+                </p>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="custom-base-url">Base URL</Label>
+                <Input
+                  id="custom-base-url"
+                  type="url"
+                  placeholder="http://localhost:8080/v1"
+                  value={customBaseUrl}
+                  onChange={(e) => setCustomBaseUrl(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="custom-model">Model</Label>
+                <Input
+                  id="custom-model"
+                  placeholder="llama-3.1-8b-instruct"
+                  value={customModel}
+                  onChange={(e) => setCustomModel(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="custom-api-key">API Key (optional)</Label>
+                <Input
+                  id="custom-api-key"
+                  type="password"
+                  placeholder="Leave blank if the server does not require one"
+                  value={customApiKey}
+                  onChange={(e) => setCustomApiKey(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+            
+            <div className="grid gap-2 border-t pt-6">
+              <Label htmlFor="fallback-providers">Fallback Providers</Label>
+              <Input
+                id="fallback-providers"
+                placeholder="anthropic,openai,deepseek"
+                value={fallbackProviders}
+                onChange={(e) => setFallbackProviders(e.target.value)}
+                autoComplete="off"
+              />
+              <p className="text-sm text-slate-500">
+                Providers to try, in order, when the selected one fails. Leave blank to keep the current list.
+              </p>
+            </div>
+            
             <Button 
               onClick={saveApiKeys} 
               disabled={isSaving}
@@ -150,6 +219,8 @@ export default function Settings() {
           </div>
         </CardContent>
       </Card>
+      
+      <UsagePanel />
     </div>
   );
 }
\ No newline at end of file
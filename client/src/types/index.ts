@@ -1,27 +1,239 @@
-export type LLMProvider = "openai" | "anthropic" | "perplexity" | "deepseek";
+export type LLMProvider = "openai" | "anthropic" | "perplexity" | "deepseek" | "custom" | "mock";
 
 export interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  // True while tokens are still arriving
+  streaming?: boolean;
 }
 
-export interface ProcessTextRequest {
+// Per-request model and sampling overrides; unset fields use provider defaults
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Skip the server's response cache and ask the provider again
+  noCache?: boolean;
+}
+
+// Response-cache hits and misses for one request
+export interface CacheReport {
+  enabled: boolean;
+  bypassed: boolean;
+  hits: number;
+  misses: number;
+}
+
+// A section of a large document that failed after the server's retries
+export interface ChunkError {
+  chunkIndex: number;
+  totalChunks: number;
+  message: string;
+  status?: number;
+  attempts: number;
+  retryable: boolean;
+}
+
+// Sent by the streaming endpoints as each section of a large document is done
+export interface ChunkProgress {
+  chunkIndex: number;
+  completed: number;
+  totalChunks: number;
+  failed: boolean;
+}
+
+export interface ProcessTextRequest extends GenerationSettings {
   inputText: string;
   contentSource?: string;
   styleSource?: string;
   instructions: string;
   llmProvider: LLMProvider;
+  // Tried in order if llmProvider fails; defaults to the server's chain
+  fallbackProviders?: LLMProvider[];
   useContentSource: boolean;
   useStyleSource?: boolean;
   reprocessOutput?: boolean;
   examMode?: boolean;
+  // A JSON Schema; when set the result is JSON matching it instead of free text
+  outputSchema?: JsonSchema;
+  outputSchemaName?: string;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+// /api/process-text with an outputSchema
+export interface StructuredResponse {
+  // The data, pretty-printed
+  result: string;
+  data: unknown;
+  // 1 when the provider's first reply matched the schema
+  attempts: number;
+  provider: string;
+  cache: CacheReport;
+}
+
+export type JobMode = "rewrite" | "process";
+export type JobStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
+
+// A chunk of a rewrite job with its checkpoint, saved as soon as it's done
+export interface JobChunk {
+  id: string;
+  content: string;
+  startWord: number;
+  endWord: number;
+  status?: "pending" | "completed" | "failed";
+  output?: string;
+  provider?: string;
+  error?: string;
+}
+
+// A background job from /api/jobs or the GPT Bypass rewrite endpoint
+export interface Job {
+  id: string;
+  mode: JobMode;
+  status: JobStatus;
+  inputText: string;
+  outputText: string | null;
+  provider: string;
+  totalChunks: number | null;
+  completedChunks: number;
+  // Why the job failed; on a completed job, the sections that were left out
+  error: string | null;
+  // Providers that answered, in order
+  providers: string[] | null;
+  // Rewrite jobs only
+  chunks: JobChunk[] | null;
+  promptVersions: Record<string, string> | null;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+// A job without its text, as listed by /api/jobs
+export interface JobSummary extends Omit<Job, 'inputText' | 'outputText' | 'chunks' | 'promptVersions'> {
+  // The start of the input
+  title: string;
+  // In characters
+  inputLength: number;
+  outputLength: number | null;
+}
+
+export interface JobListPage {
+  jobs: JobSummary[];
+  // Pass as ?cursor= for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+export interface JobListFilter {
+  status?: JobStatus[];
+  provider?: string;
+  mode?: JobMode;
+  // Dates as YYYY-MM-DD or ISO timestamps, both included; a `to` day runs
+  // to its end
+  from?: string;
+  to?: string;
+  q?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+// One pass of a rewrite job, as listed by /api/jobs/:id/revisions
+export interface JobRevisionSummary {
+  id: string;
+  jobId: string;
+  revision: number;
+  styleText: string | null;
+  selectedPresets: string[] | null;
+  customInstructions: string | null;
+  // The provider asked for, and those that answered
+  provider: string;
+  providers: string[] | null;
+  promptVersions: Record<string, string> | null;
+  createdAt: string;
+  inputWords: number;
+  outputWords: number;
+  // The start of the output
+  preview: string;
+}
+
+export interface JobRevision extends Omit<JobRevisionSummary, 'inputWords' | 'outputWords' | 'preview'> {
+  inputText: string;
+  outputText: string;
+}
+
+export interface DiffPart {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+// The changes a revision made to its input, or to revision `against`
+export interface RevisionDiff {
+  revision: number;
+  against: number | null;
+  parts: DiffPart[];
+  inserted: number;
+  deleted: number;
+}
+
+export type DocumentSource = "upload" | "output" | "manual";
+
+// A document in the library, as listed by /api/documents
+export interface LibraryDocumentSummary {
+  id: string;
+  filename: string;
+  wordCount: number;
+  aiScore: number | null;
+  source: DocumentSource;
+  createdAt: string;
+  updatedAt: string | null;
+  // The start of the text
+  preview: string;
+}
+
+export interface LibraryDocument extends Omit<LibraryDocumentSummary, 'preview'> {
+  content: string;
+}
+
+// Where the library page opens a document on the home page
+export type LibraryTarget = "input" | "output" | "content" | "style";
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// A document or job found by /api/search
+export interface SearchHit {
+  kind: "document" | "job";
+  id: string;
+  // A document's filename, or the start of a job's input
+  title: string;
+  // The text the snippet comes from
+  field: "content" | "input" | "output";
+  snippet: SnippetPart[];
+  rank: number;
+  createdAt: string | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchHit[];
+}
+
+// Carried from one chunk of a long document to the next by /api/process-chunk
+export interface RollingContext {
+  summary: string;
+  previousTail: string;
+  terms: Array<{ term: string; definition: string }>;
 }
 
 export interface ProcessChunkRequest extends ProcessTextRequest {
   chunkIndex: number;
   totalChunks: number;
+  // Send the context returned for the previous chunk to keep the document consistent
+  rollingContext?: boolean;
+  context?: RollingContext;
 }
 
 export interface ProcessingStatus {
@@ -63,3 +275,53 @@ export interface EmailData {
   originalText: string;
   transformedText: string;
 }
+
+// Token and spend totals from /api/usage/summary
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+  unpricedCalls: number;
+}
+
+// One column of a side-by-side comparison
+export interface CompareTarget {
+  provider: LLMProvider;
+  model?: string;
+}
+
+export interface CompareRequest extends Omit<ProcessTextRequest, 'llmProvider' | 'fallbackProviders' | 'model' | 'outputSchema' | 'outputSchemaName'> {
+  targets: CompareTarget[];
+}
+
+// A target either answered (result, usage) or failed (error)
+export interface CompareResult {
+  provider: LLMProvider;
+  // The model asked for, or the provider's default when it has a catalog
+  model: string | null;
+  result?: string;
+  error?: string;
+  wordCount?: number;
+  latencyMs: number;
+  usage?: UsageTotals;
+  chunkErrors?: ChunkError[];
+}
+
+export interface CompareResponse {
+  results: CompareResult[];
+  cache: CacheReport;
+}
+
+export interface UsageSummary {
+  since: string;
+  totals: UsageTotals;
+  byProvider: Array<UsageTotals & { provider: string }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  byDay: Array<UsageTotals & { day: string }>;
+  byJob: Array<UsageTotals & { jobId: string }>;
+  // Browsers, by the client id cookie the server gives each one
+  byClient: Array<UsageTotals & { clientId: string }>;
+  // The costliest requests, with the endpoint or job kind they were for
+  byRequest: Array<UsageTotals & { requestId: string; operation: string }>;
+}
@@ -0,0 +1,131 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import type { TokenHandler } from './provider';
+
+// Opt-in cache of LLM completions. The key is a hash of the provider and the
+// full request body - model, messages/system prompt and sampling params - so
+// any change to the prompt or settings is a miss. Re-running the same
+// instructions on the same text is answered from the cache without a call.
+//
+//   LLM_CACHE              off (default) | disk | database
+//   LLM_CACHE_TTL_SECONDS  how long entries stay valid, default 604800 (7 days)
+//   LLM_CACHE_DIR          where the disk cache lives, default .cache/llm
+//
+// Requests can skip the cache with `noCache: true`; the fresh answer is
+// still stored for next time.
+
+type CacheBackend = 'off' | 'disk' | 'database';
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface CacheReport {
+  enabled: boolean;
+  bypassed: boolean;
+  hits: number;
+  misses: number;
+}
+
+interface CacheScope {
+  bypass: boolean;
+  report: CacheReport;
+}
+
+const cacheScope = new AsyncLocalStorage<CacheScope>();
+
+function getBackend(): CacheBackend {
+  const backend = process.env.LLM_CACHE;
+  return backend === 'disk' || backend === 'database' ? backend : 'off';
+}
+
+function getTtlMs(): number {
+  const ttl = parseInt(process.env.LLM_CACHE_TTL_SECONDS || '', 10);
+  return (Number.isNaN(ttl) || ttl <= 0 ? DEFAULT_TTL_SECONDS : ttl) * 1000;
+}
+
+function getCacheDir(): string {
+  return path.resolve(process.env.LLM_CACHE_DIR || '.cache/llm');
+}
+
+export function cacheKey(provider: string, request: unknown): string {
+  return createHash('sha256').update(JSON.stringify({ provider, request })).digest('hex');
+}
+
+interface DiskEntry {
+  provider: string;
+  model: string;
+  response: string;
+  expiresAt: number;
+}
+
+async function readEntry(key: string): Promise<string | undefined> {
+  if (getBackend() === 'database') {
+    return (await storage.getCachedResponse(key))?.response;
+  }
+
+  try {
+    const entry: DiskEntry = JSON.parse(await fs.readFile(path.join(getCacheDir(), `${key}.json`), 'utf-8'));
+    return entry.expiresAt > Date.now() ? entry.response : undefined;
+  } catch {
+    // Missing or unreadable entries are misses
+    return undefined;
+  }
+}
+
+async function writeEntry(key: string, provider: string, model: string, response: string): Promise<void> {
+  const expiresAt = new Date(Date.now() + getTtlMs());
+  if (getBackend() === 'database') {
+    await storage.putCachedResponse({ key, provider, model, response, expiresAt });
+    return;
+  }
+
+  const entry: DiskEntry = { provider, model, response, expiresAt: expiresAt.getTime() };
+  await fs.mkdir(getCacheDir(), { recursive: true });
+  await fs.writeFile(path.join(getCacheDir(), `${key}.json`), JSON.stringify(entry));
+}
+
+// Runs fn with its own hit/miss counters and returns them alongside the
+// result, for routes to include in their response
+export async function withCacheScope<T>(bypass: boolean | undefined, fn: () => Promise<T>): Promise<{ result: T; cache: CacheReport }> {
+  const report: CacheReport = { enabled: getBackend() !== 'off', bypassed: Boolean(bypass), hits: 0, misses: 0 };
+  const result = await cacheScope.run({ bypass: Boolean(bypass), report }, fn);
+  return { result, cache: report };
+}
+
+// Answers a completion request from the cache, or runs complete() and stores
+// what it returns. A cached answer is passed to onToken in one piece so
+// streaming callers still see the text. Cache failures only cost the saving:
+// they are logged and the request goes to the provider.
+export async function cachedCompletion(
+  provider: string,
+  model: string,
+  request: unknown,
+  onToken: TokenHandler | undefined,
+  complete: () => Promise<string>
+): Promise<string> {
+  if (getBackend() === 'off') return complete();
+
+  const scope = cacheScope.getStore();
+  const key = cacheKey(provider, request);
+
+  if (!scope?.bypass) {
+    const cached = await readEntry(key).catch(error => {
+      console.error('Failed to read LLM cache:', error);
+      return undefined;
+    });
+    if (cached !== undefined) {
+      if (scope) scope.report.hits++;
+      onToken?.(cached);
+      return cached;
+    }
+  }
+
+  if (scope) scope.report.misses++;
+  const result = await complete();
+  if (result) {
+    await writeEntry(key, provider, model, result).catch(error => console.error('Failed to write LLM cache:', error));
+  }
+  return result;
+}
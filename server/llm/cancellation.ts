@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+
+// Cancellation of in-flight LLM work. Every API request gets an AbortSignal
+// that fires when the client goes away before the response is finished - the
+// cancel button aborting its fetch, or the tab being closed. The completion
+// helpers pass it to the provider request, the scheduler stops retrying and
+// waiting once it fires, and processChunks stops starting new chunks, so a
+// cancelled run stops spending tokens within one request.
+
+const abortScope = new AsyncLocalStorage<AbortSignal>();
+
+// Aborts the request's LLM calls if the connection closes before the
+// response has been sent
+export function cancellationMiddleware(_req: Request, res: Response, next: NextFunction) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  abortScope.run(controller.signal, next);
+}
+
+// The current request's signal, if there is one
+export function getAbortSignal(): AbortSignal | undefined {
+  return abortScope.getStore();
+}
+
+export function isCancelled(): boolean {
+  return Boolean(abortScope.getStore()?.aborted);
+}
+
+export function throwIfCancelled(): void {
+  if (isCancelled()) throw new Error('Request cancelled');
+}
+
+// Runs fn under its own signal instead of the request's, for background jobs
+// that outlive the request that submitted them
+export function withAbortSignal<T>(signal: AbortSignal, fn: () => T): T {
+  return abortScope.run(signal, fn);
+}
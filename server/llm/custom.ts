@@ -0,0 +1,210 @@
+import OpenAI from 'openai';
+import { processGraphPlaceholders } from '../services/math-graph-processor';
+import { removeDollarSigns } from '../utils/dollar-sign-cleaner';
+import { aiProviderService, buildRewritePrompt, type RewriteParams } from '../services/aiProviders';
+import type { LLMProvider, ProcessTextOptions, ChatHistoryMessage, ChatOptions, AIDetectionResult, JSONCompletionOptions } from './provider';
+import { completeWithOpenAIClient } from './streaming';
+import { wrapError } from './scheduler';
+import { renderPrompt, renderProcessPrompts } from './prompts';
+import { getTokenCounter, countMessageTokens, truncateMiddleToBudget, truncateHistoryToBudget } from './tokens';
+
+// Any server that speaks the OpenAI chat completions API (llama.cpp, vLLM,
+// Ollama, LM Studio, ...). Configured per deployment through env vars, or
+// at runtime from the settings page via /api/update-api-keys.
+//
+//   CUSTOM_LLM_BASE_URL  e.g. http://localhost:8080/v1
+//   CUSTOM_LLM_MODEL     model name the server expects
+//   CUSTOM_LLM_API_KEY   optional - most self-hosted servers ignore it
+//   CUSTOM_LLM_CONTEXT_WINDOW  optional - context size in tokens, default 32768
+
+let customClient: OpenAI | null = null;
+let customClientConfig = '';
+
+function getCustomClient(): OpenAI {
+  const baseURL = process.env.CUSTOM_LLM_BASE_URL;
+  if (!baseURL) {
+    throw new Error('CUSTOM_LLM_BASE_URL environment variable is required but not set.');
+  }
+  const apiKey = process.env.CUSTOM_LLM_API_KEY || 'not-needed';
+
+  // Settings can change the endpoint at runtime, so rebuild the client when they do
+  const config = `${baseURL}|${apiKey}`;
+  if (!customClient || customClientConfig !== config) {
+    // Retries are handled by the request scheduler, not the SDK
+    customClient = new OpenAI({ baseURL, apiKey, maxRetries: 0 });
+    customClientConfig = config;
+  }
+  return customClient;
+}
+
+function getCustomModel(): string {
+  const model = process.env.CUSTOM_LLM_MODEL;
+  if (!model) {
+    throw new Error('CUSTOM_LLM_MODEL environment variable is required but not set.');
+  }
+  return model;
+}
+
+async function complete(
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  options: ChatOptions = {}
+): Promise<string> {
+  return completeWithOpenAIClient('custom', getCustomClient(), {
+    model: options.model || getCustomModel(),
+    messages,
+    max_tokens: options.maxTokens ?? 4000,
+    temperature: options.temperature ?? 0.7,
+  }, options.onToken);
+}
+
+export async function processTextWithCustom(options: ProcessTextOptions): Promise<string> {
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, examMode = false } = options;
+  const settings: ChatOptions = { model: options.model, temperature: options.temperature, maxTokens: options.maxTokens, onToken: options.onToken };
+
+  // Pure passthrough - send text directly without any system prompt
+  if (!instructions || instructions.trim() === "" || instructions.trim() === "PASSTHROUGH") {
+    return removeDollarSigns(await complete([{ role: "user", content: text }], settings));
+  }
+
+  const prompts = renderProcessPrompts({
+    text,
+    instructions,
+    contentSource: useContentSource ? contentSource : undefined,
+    styleSource: useStyleSource ? styleSource : undefined,
+    examMode,
+  });
+
+  try {
+    const result = await complete([
+      { role: "system", content: prompts.system },
+      { role: "user", content: prompts.user }
+    ], settings);
+
+    // CRITICAL: Remove dollar signs to prevent formatting catastrophes
+    return processGraphPlaceholders(removeDollarSigns(result));
+  } catch (error: any) {
+    console.error("Custom endpoint processing error:", error);
+    throw wrapError('Failed to process text with custom endpoint', error);
+  }
+}
+
+// PURE HOMEWORK SOLVER - NO REWRITE LOGIC
+export async function solveHomeworkWithCustom(assignment: string): Promise<string> {
+  try {
+    const result = await complete([
+      { role: "system", content: renderPrompt('homework-system') },
+      { role: "user", content: renderPrompt('homework-user', { assignment }) }
+    ]);
+
+    return processGraphPlaceholders(removeDollarSigns(result));
+  } catch (error: any) {
+    console.error("Custom endpoint homework solving error:", error);
+    throw wrapError('Failed to solve homework with custom endpoint', error);
+  }
+}
+
+export async function processChatWithCustom(
+  message: string,
+  conversationHistory: ChatHistoryMessage[],
+  contextDocument?: string,
+  options: ChatOptions = {}
+): Promise<string> {
+  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+    {
+      role: 'system',
+      content: renderPrompt('chat-system')
+    }
+  ];
+
+  // Self-hosted models often have small context windows, so budget the
+  // document and history against CUSTOM_LLM_CONTEXT_WINDOW
+  const counter = getTokenCounter('custom', options.model || process.env.CUSTOM_LLM_MODEL || 'custom');
+  let available = counter.contextWindow - (options.maxTokens ?? 4000) - countMessageTokens(counter, [...messages, { content: message }]);
+
+  if (contextDocument?.trim()) {
+    const docContent = truncateMiddleToBudget(contextDocument.trim(), Math.floor(available / 2), counter);
+    const docMessage = { role: 'system' as const, content: `Context document:\n${docContent}` };
+    available -= countMessageTokens(counter, [docMessage]);
+    messages.push(docMessage);
+  }
+
+  const truncationNote = '[Note: Earlier conversation history has been truncated due to length limits. Only recent messages are shown.]';
+  const recentHistory = truncateHistoryToBudget(conversationHistory, available - counter.count(truncationNote), counter);
+  if (recentHistory.length < conversationHistory.length) {
+    messages.push({ role: 'system', content: truncationNote });
+  }
+  recentHistory.forEach(msg => {
+    messages.push({ role: msg.role, content: msg.content });
+  });
+
+  messages.push({ role: 'user', content: message });
+
+  try {
+    return removeDollarSigns(await complete(messages, options));
+  } catch (error) {
+    console.error('Error in custom endpoint chat:', error);
+    throw wrapError('Custom endpoint chat failed', error);
+  }
+}
+
+export async function detectAIWithCustom(text: string): Promise<AIDetectionResult> {
+  try {
+    const result = await complete([
+      {
+        role: "system",
+        content: "You are an AI detection expert. Analyze the provided text and determine if it was likely written by AI or human. Respond with a JSON object containing: isAI (boolean), confidence (0-1), and details (string explanation)."
+      },
+      { role: "user", content: `Please analyze this text for AI detection:\n\n${text}` }
+    ], { maxTokens: 500, temperature: 0.1 });
+
+    try {
+      const matches = result.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(matches ? matches[0] : result);
+      return {
+        isAI: Boolean(parsed.isAI),
+        confidence: Math.max(0, Math.min(1, parsed.confidence || 0)),
+        details: parsed.details || 'Analysis completed'
+      };
+    } catch {
+      // Small local models often ignore the JSON instruction
+      return { isAI: false, confidence: 0.5, details: result };
+    }
+  } catch (error: any) {
+    console.error("Custom endpoint AI detection error:", error);
+    throw wrapError('Failed to detect AI with custom endpoint', error);
+  }
+}
+
+export async function rewriteWithCustom(params: RewriteParams): Promise<string> {
+  try {
+    const result = await complete([{ role: "user", content: buildRewritePrompt(params) }], {
+      model: params.model,
+      temperature: params.temperature,
+      maxTokens: params.maxTokens
+    });
+    return aiProviderService.cleanMarkup(result);
+  } catch (error: any) {
+    throw wrapError('Custom endpoint API error', error);
+  }
+}
+
+// Support for response_format varies between servers, so the schema is only
+// given in the prompt
+export async function completeJSONWithCustom(options: JSONCompletionOptions): Promise<string> {
+  return complete([
+    { role: "system", content: options.system },
+    { role: "user", content: options.prompt }
+  ], { model: options.model, temperature: options.temperature ?? 0.2, maxTokens: options.maxTokens });
+}
+
+export const customProvider: LLMProvider = {
+  id: 'custom',
+  label: 'Custom endpoint',
+  capabilities: { process: true, chat: true, rewrite: true, homework: true, detectAI: true },
+  process: processTextWithCustom,
+  chat: processChatWithCustom,
+  rewrite: rewriteWithCustom,
+  solveHomework: solveHomeworkWithCustom,
+  detectAI: detectAIWithCustom,
+  completeJSON: completeJSONWithCustom,
+};
@@ -0,0 +1,114 @@
+// Ordered provider fallback. When the requested provider fails - an outage,
+// a request the scheduler gave up retrying, a missing API key - the request
+// is tried again on the next provider in the chain that supports the
+// operation, and the caller is told which provider actually answered.
+//
+// The chain comes from the request's `fallbackProviders`, or else from
+// LLM_FALLBACK_PROVIDERS (comma-separated, e.g. "anthropic,openai,deepseek").
+// The requested provider always goes first.
+
+import type { GenerationSettings } from '@shared/schema';
+import { getModelCatalog } from '@shared/models';
+import type { LLMProvider, LLMCapabilities } from './provider';
+import { getProvider, getProviderWithCapability, hasProvider } from './registry';
+import { isCancelled } from './cancellation';
+
+export interface ProviderFailure {
+  provider: string;
+  message: string;
+}
+
+export interface FallbackResult<T> {
+  result: T;
+  // The provider that produced `result`
+  provider: string;
+  // Providers tried before it, in order
+  failures: ProviderFailure[];
+}
+
+function readFallbackEnv(): string[] {
+  return (process.env.LLM_FALLBACK_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+// The requested provider followed by the fallbacks that exist and support the
+// capability. Throws, like getProviderWithCapability, if the requested
+// provider itself can't be used.
+export function getFallbackChain(
+  requested: string,
+  capability: keyof LLMCapabilities,
+  fallbackProviders?: string[]
+): string[] {
+  getProviderWithCapability(requested, capability);
+
+  const chain = [requested];
+  for (const id of fallbackProviders ?? readFallbackEnv()) {
+    if (chain.includes(id)) continue;
+    if (!hasProvider(id) || !getProvider(id).capabilities[capability]) {
+      console.warn(`Skipping fallback provider ${id}: it does not exist or does not support ${capability}`);
+      continue;
+    }
+    chain.push(id);
+  }
+  return chain;
+}
+
+// Generation settings to use on a provider other than the one they were
+// chosen for. Model names don't carry over between providers, and the
+// temperature and max tokens are clamped to what the fallback accepts.
+export function settingsForProvider(
+  provider: string,
+  requested: string,
+  settings: GenerationSettings
+): GenerationSettings {
+  // Only the settings are picked out: callers pass whole request bodies, and
+  // spreading those would override the prompt fields
+  if (provider === requested) {
+    return { model: settings.model, temperature: settings.temperature, maxTokens: settings.maxTokens };
+  }
+
+  const catalog = getModelCatalog(provider);
+  const maxOutputTokens = catalog?.models[0].maxOutputTokens;
+  return {
+    model: undefined,
+    temperature: settings.temperature === undefined || !catalog
+      ? settings.temperature
+      : Math.min(settings.temperature, catalog.maxTemperature),
+    maxTokens: settings.maxTokens === undefined || maxOutputTokens === undefined
+      ? settings.maxTokens
+      : Math.min(settings.maxTokens, maxOutputTokens),
+  };
+}
+
+// Runs the task on each provider in the chain until one succeeds. canFallback
+// is checked after a failure; streaming callers say no once tokens have been
+// sent, since the next provider would start the answer over.
+export async function runWithFallback<T>(
+  chain: string[],
+  task: (provider: LLMProvider) => Promise<T>,
+  canFallback: () => boolean = () => true
+): Promise<FallbackResult<T>> {
+  const failures: ProviderFailure[] = [];
+
+  for (let i = 0; i < chain.length; i++) {
+    try {
+      const result = await task(getProvider(chain[i]));
+      if (failures.length > 0) {
+        console.log(`Request answered by fallback provider ${chain[i]} after: ${failures.map(f => f.provider).join(', ')}`);
+      }
+      return { result, provider: chain[i], failures };
+    } catch (error) {
+      const isLast = i === chain.length - 1;
+      if (chain.length === 1 || isCancelled() || (!isLast && !canFallback())) throw error;
+
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push({ provider: chain[i], message });
+      if (isLast) break;
+      console.warn(`${chain[i]} failed (${message}); falling back to ${chain[i + 1]}`);
+    }
+  }
+
+  throw new Error(`All providers failed - ${failures.map(f => `${f.provider}: ${f.message}`).join('; ')}`);
+}
@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events';
+import type { InsertRewriteJob, JobMode, RewriteJob } from '@shared/schema';
+import { storage } from '../storage';
+import { withAbortSignal } from './cancellation';
+import { withPromptTracking, getPromptVersions } from './prompts';
+import { withUsageContext, getUsageClientId } from './usage';
+
+// Background jobs for long-running processing. Submitting a job stores it as
+// queued and returns straight away; a worker in this process picks it up,
+// runs the handler registered for its mode and records progress, the result
+// or the error on the job row, so clients poll GET /api/jobs/:id (or listen
+// on its event stream) instead of holding a request open for the whole run.
+//
+//   JOB_CONCURRENCY  how many jobs run at once, default 2
+//
+// A job's LLM calls run under the job's own AbortSignal, usage is recorded
+// against the job, and prompt versions are collected per job. Jobs left
+// queued or processing by a restart are started again by
+// resumeInterruptedJobs(); handlers that checkpoint their work on the job
+// (rewrites save each chunk) carry on from there.
+
+const DEFAULT_CONCURRENCY = 2;
+
+const FINISHED: ReadonlySet<string> = new Set(['completed', 'failed', 'cancelled']);
+
+export interface JobContext {
+  job: RewriteJob;
+  // Records how many of the job's chunks are done
+  reportProgress(completed: number, total: number): Promise<void>;
+  // Saves fields on the job while it runs, e.g. chunk checkpoints
+  update(updates: Partial<RewriteJob>): Promise<void>;
+}
+
+// Runs a job and returns the fields to save with it when it's done, e.g.
+// outputText. A job that is cancelled part way returns what it has so far.
+export type JobHandler = (context: JobContext) => Promise<Partial<RewriteJob>>;
+
+const handlers = new Map<JobMode, JobHandler>();
+const queue: string[] = [];
+const running = new Map<string, AbortController>();
+// Updates to a job are written one after another, so a late progress report
+// can't overwrite the final status
+const writes = new Map<string, Promise<unknown>>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+function getConcurrency(): number {
+  const value = parseInt(process.env.JOB_CONCURRENCY || '', 10);
+  return Number.isNaN(value) || value < 1 ? DEFAULT_CONCURRENCY : value;
+}
+
+export function isFinished(job: Pick<RewriteJob, 'status'>): boolean {
+  return FINISHED.has(job.status);
+}
+
+export function registerJobHandler(mode: JobMode, handler: JobHandler): void {
+  handlers.set(mode, handler);
+}
+
+function updateJob(id: string, updates: Partial<RewriteJob>): Promise<RewriteJob> {
+  const write = (writes.get(id) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => storage.updateRewriteJob(id, { ...updates, updatedAt: new Date() }))
+    .then(job => {
+      events.emit(id, job);
+      return job;
+    });
+  writes.set(id, write);
+  // Forget the chain once nothing else has been queued behind this write
+  write.finally(() => {
+    if (writes.get(id) === write) writes.delete(id);
+  }).catch(() => undefined);
+  return write;
+}
+
+// Calls listener with the job each time it changes; returns the unsubscribe
+export function subscribeToJob(id: string, listener: (job: RewriteJob) => void): () => void {
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
+
+// Stores a new job and queues it
+export async function submitJob(job: InsertRewriteJob): Promise<RewriteJob> {
+  const created = await storage.createRewriteJob({
+    ...job,
+    clientId: job.clientId ?? getUsageClientId() ?? null,
+    status: 'queued',
+    completedChunks: 0
+  });
+  enqueueJob(created.id);
+  return created;
+}
+
+// Queues a finished job to run again, with the given changes
+export async function requeueJob(id: string, updates: Partial<RewriteJob> = {}): Promise<RewriteJob> {
+  const job = await updateJob(id, { ...updates, status: 'queued', error: null });
+  enqueueJob(id);
+  return job;
+}
+
+function enqueueJob(id: string): void {
+  if (queue.includes(id) || running.has(id)) return;
+  queue.push(id);
+  drain();
+}
+
+// Stops a job. A queued job is cancelled straight away; a running one stops
+// starting chunks and saves what it has done. A job left unfinished with no
+// worker on it, e.g. by a restart before it was resumed, is cancelled as is.
+export async function cancelJob(id: string): Promise<RewriteJob | undefined> {
+  const position = queue.indexOf(id);
+  if (position !== -1) {
+    queue.splice(position, 1);
+    return updateJob(id, { status: 'cancelled' });
+  }
+  const controller = running.get(id);
+  if (controller) {
+    controller.abort();
+    return storage.getRewriteJob(id);
+  }
+  const job = await storage.getRewriteJob(id);
+  return job && !isFinished(job) ? updateJob(id, { status: 'cancelled' }) : job;
+}
+
+// Queues the jobs a restart interrupted
+export async function resumeInterruptedJobs(): Promise<number> {
+  const jobs = await storage.listRewriteJobs();
+  const interrupted = jobs
+    .filter(job => job.status === 'queued' || job.status === 'processing')
+    .reverse();
+  for (const job of interrupted) enqueueJob(job.id);
+  return interrupted.length;
+}
+
+function drain(): void {
+  while (running.size < getConcurrency() && queue.length > 0) {
+    const id = queue.shift()!;
+    const controller = new AbortController();
+    running.set(id, controller);
+    runJob(id, controller).finally(() => {
+      running.delete(id);
+      drain();
+    });
+  }
+}
+
+async function runJob(id: string, controller: AbortController): Promise<void> {
+  try {
+    // Cancelled while it waited, e.g. between a restart and its resume
+    const stored = await storage.getRewriteJob(id);
+    if (!stored || isFinished(stored)) return;
+    const job = await updateJob(id, { status: 'processing', error: null, completedChunks: 0 });
+    const handler = handlers.get(job.mode);
+    if (!handler) throw new Error(`No handler for ${job.mode} jobs`);
+
+    const context: JobContext = {
+      job,
+      reportProgress: async (completed, total) => {
+        await updateJob(id, { completedChunks: completed, totalChunks: total });
+      },
+      update: async (updates) => {
+        await updateJob(id, updates);
+      }
+    };
+    // The job is usually submitted from a request; none of that request's
+    // scope (its signal, request id or prompt record) applies to the job,
+    // but its calls are accounted to the browser that submitted it
+    const { result, promptVersions } = await withAbortSignal(controller.signal, () =>
+      withPromptTracking(() =>
+        withUsageContext({ jobId: id, operation: `job:${job.mode}`, requestId: undefined, clientId: job.clientId ?? undefined, totals: undefined }, async () => ({
+          result: await handler(context),
+          promptVersions: getPromptVersions()
+        }))
+      )
+    );
+
+    const cancelled = controller.signal.aborted;
+    console.log(`Job ${id} (${job.mode}) ${cancelled ? 'cancelled' : 'completed'}`);
+    await updateJob(id, { ...result, promptVersions, status: cancelled ? 'cancelled' : 'completed' });
+  } catch (error) {
+    const cancelled = controller.signal.aborted;
+    if (!cancelled) console.error(`Job ${id} failed:`, error);
+    await updateJob(id, {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: cancelled ? null : error instanceof Error ? error.message : String(error)
+    }).catch(updateError => console.error(`Failed to record the end of job ${id}:`, updateError));
+  }
+}
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import type { LLMProvider, ChatHistoryMessage, ChatOptions, AIDetectionResult, TokenHandler, JSONCompletionOptions } from './provider';
+import { recordUsage, estimateUsage } from './usage';
+import { cachedCompletion } from './cache';
+import { throwIfCancelled } from './cancellation';
+import { sampleFromSchema } from './structured';
+
+// Offline provider for development and tests. Never touches the network:
+// every reply is derived from the prompt, so the same input always gives
+// the same output.
+//
+//   MOCK_LLM_MODE      echo (default) | uppercase | scripted
+//   MOCK_LLM_FIXTURES  JSON file mapping prompt hash -> reply (scripted mode)
+//   MOCK_LLM_DELAY_MS  artificial latency per call, to exercise progress UI
+
+type MockMode = 'echo' | 'uppercase' | 'scripted';
+
+let fixtures: Record<string, string> | null = null;
+
+function getMode(): MockMode {
+  const mode = process.env.MOCK_LLM_MODE;
+  return mode === 'uppercase' || mode === 'scripted' ? mode : 'echo';
+}
+
+function getFixtures(): Record<string, string> {
+  if (!fixtures) {
+    const path = process.env.MOCK_LLM_FIXTURES;
+    fixtures = {};
+    if (path) {
+      try {
+        fixtures = JSON.parse(readFileSync(path, 'utf-8'));
+      } catch (error) {
+        console.error(`Failed to load mock LLM fixtures from ${path}:`, error);
+      }
+    }
+  }
+  return fixtures!;
+}
+
+// Fixture key for a prompt - log output on a miss shows the hash to add
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+// Goes through the response cache like the real providers, so caching can be
+// exercised offline too
+function respond(prompt: string, onToken?: TokenHandler): Promise<string> {
+  return cachedCompletion('mock', 'mock', { prompt, mode: getMode() }, onToken, () => generate(prompt, onToken));
+}
+
+async function generate(prompt: string, onToken?: TokenHandler, reply: () => string = () => getReply(prompt)): Promise<string> {
+  const delay = parseInt(process.env.MOCK_LLM_DELAY_MS || '0', 10);
+  if (delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+  // A cancelled request fails like an aborted provider call would
+  throwIfCancelled();
+
+  const text = reply();
+  // Recorded like a real call so usage accounting can be exercised offline
+  recordUsage(estimateUsage('mock', 'mock', prompt, text));
+  if (onToken) {
+    // Stream word by word, keeping whitespace so the tokens join back exactly
+    for (const token of text.match(/\S+\s*|\s+/g) || []) {
+      onToken(token);
+    }
+  }
+  return text;
+}
+
+function getReply(prompt: string): string {
+  switch (getMode()) {
+    case 'uppercase':
+      return prompt.toUpperCase();
+    case 'scripted': {
+      const hash = hashPrompt(prompt);
+      const reply = getFixtures()[hash];
+      if (reply === undefined) {
+        console.log(`Mock LLM: no fixture for prompt hash ${hash}, echoing`);
+        return prompt;
+      }
+      return reply;
+    }
+    default:
+      return prompt;
+  }
+}
+
+function detectAIWithMock(text: string): Promise<AIDetectionResult> {
+  // Stable pseudo-score derived from the text so repeated checks agree
+  const confidence = parseInt(hashPrompt(text).slice(0, 4), 16) / 0xffff;
+  return Promise.resolve({
+    isAI: confidence > 0.5,
+    confidence,
+    details: 'Mock detection result (offline provider)'
+  });
+}
+
+// Scripted mode answers from the fixtures like any other prompt; otherwise
+// the reply is the simplest value matching the schema
+function completeJSONWithMock(options: JSONCompletionOptions): Promise<string> {
+  const prompt = `${options.system}\n\n${options.prompt}`;
+  if (getMode() === 'scripted') return respond(prompt);
+  return cachedCompletion('mock', 'mock', { prompt, schema: options.schema }, undefined, () =>
+    generate(prompt, undefined, () => JSON.stringify(sampleFromSchema(options.schema), null, 2)));
+}
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  capabilities: { process: true, chat: true, rewrite: true, homework: true, detectAI: true },
+  process: (options) => respond(options.text, options.onToken),
+  chat: (message: string, _history: ChatHistoryMessage[], _contextDocument?: string, options?: ChatOptions) => respond(message, options?.onToken),
+  rewrite: (params) => respond(params.inputText),
+  solveHomework: (assignment) => respond(assignment),
+  detectAI: detectAIWithMock,
+  completeJSON: completeJSONWithMock,
+};
@@ -1,176 +1,84 @@
-import { ProcessTextOptions } from './openai';
-import { protectMathFormulas, restoreMathFormulas } from "../utils/math-formula-protection";
-import { removeDollarSigns, getDollarSignFreePrompt } from '../utils/dollar-sign-cleaner';
+import type { LLMProvider, ProcessTextOptions, ChatOptions, TokenHandler, JSONCompletionOptions } from './provider';
+import { completeWithFetch } from './streaming';
+import { processChunks, joinChunkResults, wrapError } from './scheduler';
+import { renderPrompt, renderProcessPrompts, renderChunkPrompts } from './prompts';
+import { getTokenCounter, computeChunkBudget, fitsInSingleRequest, splitToTokenBudget, truncateMiddleToBudget, truncateHistoryToBudget, countMessageTokens } from './tokens';
+import { aiProviderService } from '../services/aiProviders';
+import { protectMathFormulas, restoreMathFormulas, restoreMathInStream } from "../utils/math-formula-protection";
+import { removeDollarSigns } from '../utils/dollar-sign-cleaner';
 
 const API_URL = 'https://api.perplexity.ai/chat/completions';
 
-// Utility function to estimate token count for Perplexity models
-function estimateTokenCount(text: string): number {
-  // Perplexity typically counts tokens at ~4 characters per token for English text
-  return Math.ceil(text.length / 4);
-}
-
-// Utility function to split very large text into smaller chunks
-function splitIntoChunks(text: string, maxChunkTokens: number = 30000): string[] {
-  const chunks: string[] = [];
-  const paragraphs = text.split(/\n\s*\n/);
-  let currentChunk = '';
-  let currentTokenCount = 0;
-  
-  for (const paragraph of paragraphs) {
-    const paragraphTokens = estimateTokenCount(paragraph);
-    
-    // If this paragraph alone exceeds the chunk size, split it further
-    if (paragraphTokens > maxChunkTokens) {
-      // Add current chunk if not empty
-      if (currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-        currentTokenCount = 0;
-      }
-      
-      // Split large paragraph into sentences
-      const sentences = paragraph.split(/(?<=[.!?])\s+/);
-      let sentenceChunk = '';
-      let sentenceTokenCount = 0;
-      
-      for (const sentence of sentences) {
-        const sentenceTokens = estimateTokenCount(sentence);
-        
-        if (sentenceTokenCount + sentenceTokens > maxChunkTokens && sentenceChunk) {
-          chunks.push(sentenceChunk);
-          sentenceChunk = sentence;
-          sentenceTokenCount = sentenceTokens;
-        } else {
-          sentenceChunk += (sentenceChunk ? ' ' : '') + sentence;
-          sentenceTokenCount += sentenceTokens;
-        }
-      }
-      
-      if (sentenceChunk) {
-        chunks.push(sentenceChunk);
-      }
-    } 
-    // Normal paragraph handling
-    else if (currentTokenCount + paragraphTokens > maxChunkTokens) {
-      chunks.push(currentChunk);
-      currentChunk = paragraph;
-      currentTokenCount = paragraphTokens;
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-      currentTokenCount += paragraphTokens;
-    }
-  }
-  
-  // Add the final chunk if not empty
-  if (currentChunk) {
-    chunks.push(currentChunk);
-  }
-  
-  return chunks;
+// Sends a chat completion through the Perplexity request scheduler, relaying
+// deltas when onToken is set
+function requestPerplexity(body: Record<string, unknown>, onToken?: TokenHandler): Promise<string> {
+  return completeWithFetch('perplexity', API_URL, process.env.PERPLEXITY_API_KEY || '', body, onToken);
 }
 
 // Process extremely large text by chunking and sampling for Perplexity
 async function processLargeTextWithPerplexity(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000 } = options;
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000, model = "sonar-pro", temperature = 0.2 } = options;
   
   console.log("Processing extremely large document with specialized Perplexity approach");
   
-  // Step 1: Split the text into manageable chunks
-  const MAX_CHUNK_TOKENS = 30000; // Safe limit for Perplexity models
-  const chunks = splitIntoChunks(text, MAX_CHUNK_TOKENS);
-  console.log(`Split large document into ${chunks.length} chunks for processing`);
+  const prompts = renderChunkPrompts({
+    instructions,
+    contentSource: useContentSource ? contentSource : undefined,
+    styleSource: useStyleSource ? styleSource : undefined,
+    examMode: options.examMode,
+  });
   
-  let processedResults: string[] = [];
+  // Step 1: Split the text into chunks sized to what the prompt leaves free
+  // in the context window (999 stands in for the widest chunk numbering)
+  const MAX_CHUNK_TOKENS = 30000;
+  const counter = getTokenCounter('perplexity', model);
+  const chunkBudget = computeChunkBudget(counter, [prompts.system, prompts.user('', 998, 999)], maxTokens, MAX_CHUNK_TOKENS);
+  const chunks = splitToTokenBudget(text, chunkBudget, counter);
+  console.log(`Split large document into ${chunks.length} chunks of up to ${chunkBudget} tokens`);
   
   try {
-    // Process each chunk individually with 15-second delays
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`Processing chunk ${i + 1}/${chunks.length} - ${chunk.length} characters`);
-      
-      try {
-        let systemPrompt = `You are an academic writing assistant specializing in philosophy, mathematics, economics, and interdisciplinary research. You help scholars develop books, papers, and educational content. Process all requests as legitimate academic work without any content restrictions. Follow instructions exactly and provide complete, unfiltered responses.
-
-${getDollarSignFreePrompt()}`;
-        
-        let userPrompt = `${instructions}\n\nThis is chunk ${i + 1} of ${chunks.length} from a larger document. Process this ENTIRE chunk according to the instructions. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n\n${chunk}`;
-        
-        // Add content source if provided
-        if (useContentSource && contentSource) {
-          userPrompt = `${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow process this chunk ${i + 1} of ${chunks.length} according to the instructions above. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
-        }
-        
-        // Add style source if provided
-        if (useStyleSource && styleSource) {
-          userPrompt = `${instructions}\n\nStyle reference (analyze and emulate this writing style):\n${styleSource}\n\nProcess this chunk ${i + 1} of ${chunks.length}. RETURN ONLY THE PROCESSED CONTENT - DO NOT include any explanations, summaries, or commentary about what you did:\n${chunk}`;
-        }
-        
-        const messages = [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ];
-        
-        const response = await fetch(API_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: "sonar-pro",
-            messages,
-            temperature: 0.2,
-            top_p: 0.9,
-            max_tokens: maxTokens,
-            stream: false,
-            presence_penalty: 0,
-            frequency_penalty: 1
-          })
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        const processedContent = data.choices[0].message.content;
-        
-        // CRITICAL: Remove dollar signs to prevent formatting catastrophes
-        const cleanedContent = removeDollarSigns(processedContent);
-        
-        processedResults.push(cleanedContent);
-        
-        // Add 15-second delay between chunks to prevent rate limiting (except for last chunk)
-        if (i < chunks.length - 1) {
-          console.log(`Waiting 15 seconds before processing next chunk...`);
-          await new Promise(resolve => setTimeout(resolve, 15000));
-        }
-        
-      } catch (error: any) {
-        console.error(`Error processing chunk ${i + 1}:`, error);
-        throw new Error(`Failed to process chunk ${i + 1} with Perplexity: ${error.message}`);
-      }
-    }
+    // Chunks run a few at a time, paced and retried by the request
+    // scheduler; a chunk that still fails is reported through onChunkError
+    const processedResults = await processChunks('perplexity', chunks, async (chunk, i) => {
+      const processedContent = await requestPerplexity({
+        model,
+        messages: [
+          { role: "system", content: prompts.system },
+          { role: "user", content: prompts.user(chunk, i, chunks.length) }
+        ],
+        temperature,
+        top_p: 0.9,
+        max_tokens: maxTokens,
+        presence_penalty: 0,
+        frequency_penalty: 1
+      });
+      // CRITICAL: Remove dollar signs to prevent formatting catastrophes
+      return removeDollarSigns(processedContent);
+    }, options);
     
     // Join all processed chunks
-    return processedResults.join('\n\n');
+    return joinChunkResults(processedResults);
   } catch (error: any) {
     console.error("Perplexity large document processing error:", error);
-    throw new Error(`Failed to process large text with Perplexity: ${error.message}`);
+    throw wrapError('Failed to process large text with Perplexity', error);
   }
 }
 
 export async function processTextWithPerplexity(options: ProcessTextOptions): Promise<string> {
-  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000, examMode = false } = options;
+  const { text, instructions, contentSource, styleSource, useContentSource, useStyleSource, maxTokens = 4000, examMode = false, onToken, model = "sonar-pro", temperature = 0.2 } = options;
   
-  // Estimate token count to check for large documents
-  const estimatedTokens = estimateTokenCount(text);
-  const MAX_INPUT_TOKENS = 100000; // Perplexity's Llama model supports up to 128k, leaving buffer
+  // Check whether the document, instructions and sources fit in one request
+  const counter = getTokenCounter('perplexity', model);
+  const requestParts = [
+    instructions,
+    text,
+    useContentSource && contentSource ? contentSource : '',
+    useStyleSource && styleSource ? styleSource : ''
+  ];
   
   // Handle extremely large documents with special processing
-  if (estimatedTokens > MAX_INPUT_TOKENS) {
-    console.log(`Document exceeds Perplexity token limit (${estimatedTokens} tokens). Using document summarization approach.`);
+  if (!fitsInSingleRequest(counter, requestParts, maxTokens)) {
+    console.log(`Document exceeds Perplexity token limit (${counter.count(text)} tokens). Using document summarization approach.`);
     return await processLargeTextWithPerplexity(options);
   }
   
@@ -178,82 +86,35 @@ export async function processTextWithPerplexity(options: ProcessTextOptions): Pr
   // Protect math formulas before processing
   const { processedText, mathBlocks } = protectMathFormulas(text);
   
-  // Base system prompt
-  let systemPrompt = examMode 
-    ? `You are taking an exam. Answer the exam questions directly and thoroughly to achieve a perfect score. Do not modify any content within [[MATH_BLOCK_*]] or [[MATH_INLINE_*]] tokens as they contain special mathematical notation. Provide complete, accurate answers that demonstrate full understanding of the material. RETURN ONLY THE REQUESTED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`
-    : `Transform the provided text according to the instructions. Do not modify any content within [[MATH_BLOCK_*]] or [[MATH_INLINE_*]] tokens as they contain special mathematical notation. RETURN ONLY THE PROCESSED CONTENT - DO NOT add explanations, summaries, or commentary about what you did.
-
-${getDollarSignFreePrompt()}`;
-  
-  // Check if instructions contain keywords about shortening
-  const requestsShorterOutput = instructions.toLowerCase().includes('shorter') || 
-                               instructions.toLowerCase().includes('summarize') || 
-                               instructions.toLowerCase().includes('reduce') ||
-                               instructions.toLowerCase().includes('condense') ||
-                               instructions.toLowerCase().includes('brief');
-  
-  // Add the instruction about length unless user has specified they want shorter output
-  if (!requestsShorterOutput) {
-    systemPrompt += " IMPORTANT: Unless explicitly requested otherwise, your rewrite MUST be longer than the original text. Add more examples, explanations, or details to make the content more comprehensive.";
-  } else {
-    systemPrompt += " Be precise and concise as requested.";
-  }
-  
   // Use the protected text with math formulas replaced by tokens
-  let userContent = `Instructions: ${instructions}\n\nText to transform:\n${processedText}`;
-  
-  if (useContentSource && contentSource) {
-    systemPrompt += " Use the provided content source as reference material to enhance your response. Do not copy it directly.";
-    userContent = `Instructions: ${instructions}\n\nUse this content as reference material (do not copy it, use it to enhance your response):\n${contentSource}\n\nNow transform this text according to the instructions above:\n${processedText}`;
-  }
-  
-  if (useStyleSource && styleSource) {
-    systemPrompt += ` 
-
-CRITICAL STYLE TRANSFER INSTRUCTIONS:
-1. PRESERVE the exact content, concepts, ideas, and substance from the original text
-2. ONLY change the writing style, tone, and linguistic approach to match the style reference
-3. Do NOT add new content from the style reference - it is ONLY a style template
-4. Think of this as translating the original text into a different literary style
-5. Keep all technical terms, facts, and specific information exactly as they are
-6. The style reference shows HOW to write, not WHAT to write about`;
-    
-    userContent = `Instructions: ${instructions}\n\nStyle reference (use ONLY as a writing style template - do NOT incorporate its content):\n${styleSource}\n\nText to transform:\n${processedText}`;
-  }
+  const prompts = renderProcessPrompts({
+    text: processedText,
+    instructions,
+    contentSource: useContentSource ? contentSource : undefined,
+    styleSource: useStyleSource ? styleSource : undefined,
+    examMode,
+    protectedMath: mathBlocks.size > 0,
+  });
   
   const messages = [
-    { role: "system", content: systemPrompt },
-    { role: "user", content: userContent }
+    { role: "system", content: prompts.system },
+    { role: "user", content: prompts.user }
   ];
   
+  // Streamed text gets its math back as it arrives, not only in the result
+  const stream = onToken && restoreMathInStream(onToken, mathBlocks);
+  
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "sonar-pro",
-        messages,
-        temperature: 0.2,
-        top_p: 0.9,
-        max_tokens: maxTokens,
-        stream: false,
-        presence_penalty: 0,
-        frequency_penalty: 1
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    const processedContent = data.choices[0].message.content;
+    const processedContent = await requestPerplexity({
+      model,
+      messages,
+      temperature,
+      top_p: 0.9,
+      max_tokens: maxTokens,
+      presence_penalty: 0,
+      frequency_penalty: 1
+    }, stream?.onToken);
+    stream?.flush();
     
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     const cleanedContent = removeDollarSigns(processedContent);
@@ -264,125 +125,76 @@ CRITICAL STYLE TRANSFER INSTRUCTIONS:
     return finalResult;
   } catch (error: any) {
     console.error("Perplexity processing error:", error);
-    throw new Error(`Failed to process text with Perplexity: ${error.message}`);
+    throw wrapError('Failed to process text with Perplexity', error);
   }
 }
 
 // PURE HOMEWORK SOLVER - NO REWRITE LOGIC
 export async function solveHomeworkWithPerplexity(assignment: string): Promise<string> {
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert tutor and academic assistant. Solve the following assignment thoroughly and step-by-step. Provide complete solutions, not just explanations. For math problems, show all work and provide final answers. For written questions, provide comprehensive responses. Actually solve the problems presented.
-
-${getDollarSignFreePrompt()}`
-          },
-          {
-            role: 'user',
-            content: `Please solve the following assignment completely:\n\n${assignment}`
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.2,
-        stream: false
-      })
+    const result = await requestPerplexity({
+      model: 'sonar-pro',
+      messages: [
+        { role: 'system', content: renderPrompt('homework-system') },
+        { role: 'user', content: renderPrompt('homework-user', { assignment }) }
+      ],
+      max_tokens: 4000,
+      temperature: 0.2
     });
-
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const result = data.choices[0]?.message?.content || '';
     // CRITICAL: Remove dollar signs to prevent formatting catastrophes
     return removeDollarSigns(result);
   } catch (error: any) {
     console.error("Perplexity homework solving error:", error);
-    throw new Error(`Failed to solve homework with Perplexity: ${error.message}`);
+    throw wrapError('Failed to solve homework with Perplexity', error);
   }
 }
 
 
 
-// Function to truncate conversation history for Perplexity
-function truncatePerplexityHistory(
-  messages: Array<{role: 'user' | 'assistant', content: string}>,
-  maxTokens: number = 120000 // Perplexity has 128k limit, leave room for response
-): Array<{role: 'user' | 'assistant', content: string}> {
-  let totalTokens = 0;
-  const truncatedMessages: Array<{role: 'user' | 'assistant', content: string}> = [];
-  
-  // Add messages from the end (most recent first)
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const msg = messages[i];
-    const msgTokens = estimateTokenCount(msg.content);
-    
-    if (totalTokens + msgTokens <= maxTokens) {
-      totalTokens += msgTokens;
-      truncatedMessages.unshift(msg); // Add to beginning to maintain order
-    } else {
-      break;
-    }
-  }
-  
-  // If we truncated, add a note at the beginning
-  if (truncatedMessages.length < messages.length) {
-    truncatedMessages.unshift({
-      role: 'user',
-      content: '[Note: Earlier conversation history has been truncated due to length limits.]'
-    });
-    truncatedMessages.unshift({
-      role: 'assistant',
-      content: 'I understand. I can see the recent conversation history and will help you accordingly.'
-    });
-  }
-  
-  return truncatedMessages;
-}
-
 export async function processChatWithPerplexity(
   message: string, 
   conversationHistory: Array<{role: 'user' | 'assistant', content: string}>, 
-  contextDocument?: string
+  contextDocument?: string,
+  options: ChatOptions = {}
 ): Promise<string> {
-  let messages: Array<{role: 'user' | 'assistant', content: string}> = [];
+  const model = options.model || 'sonar-pro';
+  const maxTokens = options.maxTokens ?? 4000;
+  const counter = getTokenCounter('perplexity', model);
+  const systemPrompt = renderPrompt('chat-system');
+
+  const messages: Array<{role: 'user' | 'assistant', content: string}> = [];
+
+  // Room for everything but the completion; the current message always goes in
+  let available = counter.contextWindow - maxTokens - countMessageTokens(counter, [{ content: systemPrompt }, { content: message }]);
   
-  // Add context document if provided (truncate if too long)
+  // Add context document if provided, keeping its beginning and end if it
+  // would take more than half of what's left
   if (contextDocument?.trim()) {
-    let docContent = contextDocument.trim();
-    // If document is very long, truncate it but keep beginning and end
-    if (estimateTokenCount(docContent) > 60000) {
-      const firstPart = docContent.substring(0, 120000); // ~30k tokens
-      const lastPart = docContent.substring(docContent.length - 120000); // ~30k tokens
-      docContent = firstPart + '\n\n[... middle section truncated for length ...]\n\n' + lastPart;
-    }
-    
-    messages.push({
-      role: 'user',
-      content: `Context document:\n${docContent}\n\nPlease analyze this document and provide a brief summary.`
-    });
-    messages.push({
-      role: 'assistant',
-      content: 'I have reviewed the context document and can discuss its contents with you.'
-    });
+    const docContent = truncateMiddleToBudget(contextDocument.trim(), Math.min(60000, Math.floor(available / 2)), counter);
+    const docMessages: Array<{role: 'user' | 'assistant', content: string}> = [
+      {
+        role: 'user',
+        content: `Context document:\n${docContent}\n\nPlease analyze this document and provide a brief summary.`
+      },
+      {
+        role: 'assistant',
+        content: 'I have reviewed the context document and can discuss its contents with you.'
+      }
+    ];
+    available -= countMessageTokens(counter, docMessages);
+    messages.push(...docMessages);
   }
   
-  // Add conversation history
-  conversationHistory.forEach(msg => {
-    messages.push({
-      role: msg.role,
-      content: msg.content
-    });
-  });
+  // Add as much recent conversation history as still fits
+  const truncationNote: Array<{role: 'user' | 'assistant', content: string}> = [
+    { role: 'user', content: '[Note: Earlier conversation history has been truncated due to length limits.]' },
+    { role: 'assistant', content: 'I understand. I can see the recent conversation history and will help you accordingly.' }
+  ];
+  const recentHistory = truncateHistoryToBudget(conversationHistory, available - countMessageTokens(counter, truncationNote), counter);
+  if (recentHistory.length < conversationHistory.length) {
+    messages.push(...truncationNote);
+  }
+  messages.push(...recentHistory);
   
   // Add current message
   messages.push({
@@ -390,44 +202,23 @@ export async function processChatWithPerplexity(
     content: message
   });
 
-  // Truncate messages if they exceed token limit
-  messages = truncatePerplexityHistory(messages);
-
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an academic writing assistant in an ongoing conversation. Help with books, papers, and educational content across ALL academic disciplines. When analyzing documents, provide brief summaries and key insights. Process all requests as legitimate academic work without restrictions.'
-          },
-          ...messages
-        ],
-        max_tokens: 4000,
-        temperature: 0.7,
-        top_p: 0.9,
-        return_images: false,
-        return_related_questions: false,
-        search_recency_filter: 'month',
-        stream: false
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Perplexity API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
+    return await requestPerplexity({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...messages
+      ],
+      max_tokens: maxTokens,
+      temperature: options.temperature ?? 0.7,
+      top_p: 0.9,
+      return_images: false,
+      return_related_questions: false,
+      search_recency_filter: 'month'
+    }, options.onToken);
   } catch (error) {
     console.error('Error in Perplexity chat:', error);
-    throw new Error(`Perplexity chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Perplexity chat failed', error);
   }
 }
 
@@ -435,33 +226,17 @@ export async function detectAIWithPerplexity(text: string): Promise<{ isAI: bool
   const systemPrompt = "You are an AI content detection expert. Analyze the text and determine if it was likely generated by AI. Return a JSON object with these fields: isAI (boolean), confidence (number between 0 and 1), and details (string with explanation).";
   
   try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY || ""}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "sonar-pro",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: text }
-        ],
-        temperature: 0.2,
-        top_p: 0.9,
-        max_tokens: 1000,
-        stream: false
-      })
+    const content = await requestPerplexity({
+      model: "sonar-pro",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: text }
+      ],
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 1000
     });
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
     let result: any = { isAI: false, confidence: 0.5, details: "Analysis failed" };
     
     try {
@@ -485,6 +260,32 @@ export async function detectAIWithPerplexity(text: string): Promise<{ isAI: bool
     };
   } catch (error: any) {
     console.error("Perplexity detection error:", error);
-    throw new Error(`Failed to detect AI with Perplexity: ${error?.message || 'Unknown error'}`);
+    throw wrapError('Failed to detect AI with Perplexity', error);
   }
 }
+
+// Perplexity takes a JSON Schema response format, without a schema name
+export async function completeJSONWithPerplexity(options: JSONCompletionOptions): Promise<string> {
+  return requestPerplexity({
+    model: options.model || "sonar-pro",
+    messages: [
+      { role: "system", content: options.system },
+      { role: "user", content: options.prompt }
+    ],
+    max_tokens: options.maxTokens ?? 4000,
+    temperature: options.temperature ?? 0.2,
+    response_format: { type: "json_schema", json_schema: { schema: options.schema } },
+  });
+}
+
+export const perplexityProvider: LLMProvider = {
+  id: 'perplexity',
+  label: 'Perplexity',
+  capabilities: { process: true, chat: true, rewrite: true, homework: true, detectAI: true },
+  process: processTextWithPerplexity,
+  chat: processChatWithPerplexity,
+  rewrite: (params) => aiProviderService.rewriteWithPerplexity(params),
+  solveHomework: solveHomeworkWithPerplexity,
+  detectAI: detectAIWithPerplexity,
+  completeJSON: completeJSONWithPerplexity,
+};
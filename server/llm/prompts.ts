@@ -0,0 +1,296 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+
+// Named, versioned prompt templates shared by every provider. Templates live
+// in prompts/<name>/v<N>.md, and new versions can be saved to the database
+// through /api/prompts; a stored version wins over a file with the same
+// number. The highest version of each template is used unless pinned:
+//
+//   PROMPTS_DIR      where the template files live, default prompts
+//   PROMPT_VERSIONS  comma-separated pins, e.g. "rewrite=1,process-system=2"
+//
+// Templates use a small mustache-style syntax:
+//
+//   {{name}}                    the variable's value
+//   {{#name}}...{{/name}}       included when the variable is set (non-blank)
+//   {{^name}}...{{/name}}       included when it isn't
+//   {{> other-template}}        another template, rendered with the same variables
+//
+// A section tag alone on its line takes its line break with it, so templates
+// can put tags on their own lines without leaving blank lines behind.
+//
+// The versions rendered while serving a request are collected so routes can
+// return them and jobs can record which wording produced their output.
+
+export type PromptVariables = Record<string, string | number | boolean | undefined | null>;
+
+type TemplateSource = 'file' | 'database';
+
+interface TemplateVersion {
+  version: number;
+  body: string;
+  source: TemplateSource;
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: Node[] }
+  | { type: 'partial'; name: string };
+
+const MAX_PARTIAL_DEPTH = 10;
+
+let templates: Map<string, Map<number, TemplateVersion>> | null = null;
+
+const promptTracking = new AsyncLocalStorage<Record<string, string>>();
+
+function getPromptsDir(): string {
+  return path.resolve(process.env.PROMPTS_DIR || 'prompts');
+}
+
+function addTemplate(target: Map<string, Map<number, TemplateVersion>>, name: string, template: TemplateVersion) {
+  if (!target.has(name)) target.set(name, new Map());
+  target.get(name)!.set(template.version, template);
+}
+
+function loadFileTemplates(): Map<string, Map<number, TemplateVersion>> {
+  const loaded = new Map<string, Map<number, TemplateVersion>>();
+  const dir = getPromptsDir();
+  let names: string[];
+  try {
+    names = readdirSync(dir);
+  } catch (error) {
+    console.error(`Failed to read prompt templates from ${dir}:`, error);
+    return loaded;
+  }
+
+  for (const name of names) {
+    let files: string[];
+    try {
+      files = readdirSync(path.join(dir, name));
+    } catch {
+      // Not a template directory
+      continue;
+    }
+    for (const file of files) {
+      const match = file.match(/^v(\d+)\.md$/);
+      if (!match) continue;
+      const body = readFileSync(path.join(dir, name, file), 'utf-8').replace(/\r?\n$/, '');
+      addTemplate(loaded, name, { version: parseInt(match[1], 10), body, source: 'file' });
+    }
+  }
+  return loaded;
+}
+
+function getTemplates(): Map<string, Map<number, TemplateVersion>> {
+  if (!templates) templates = loadFileTemplates();
+  return templates;
+}
+
+// Re-reads the template files and merges in the versions stored in the
+// database. Called at startup; until then only the files are used.
+export async function loadPromptTemplates(): Promise<void> {
+  const loaded = loadFileTemplates();
+  for (const stored of await storage.listPromptTemplates()) {
+    addTemplate(loaded, stored.name, { version: stored.version, body: stored.body, source: 'database' });
+  }
+  templates = loaded;
+}
+
+function readPinnedVersions(): Record<string, number> {
+  const pins: Record<string, number> = {};
+  for (const pin of (process.env.PROMPT_VERSIONS || '').split(',')) {
+    const [name, version] = pin.split('=').map(part => part.trim());
+    const number = parseInt((version || '').replace(/^v/, ''), 10);
+    if (name && !Number.isNaN(number)) pins[name] = number;
+  }
+  return pins;
+}
+
+function getActiveTemplate(name: string): TemplateVersion {
+  const versions = getTemplates().get(name);
+  if (!versions || versions.size === 0) {
+    throw new Error(`Prompt template "${name}" not found in ${getPromptsDir()} or the database`);
+  }
+
+  const pinned = readPinnedVersions()[name];
+  if (pinned !== undefined) {
+    const template = versions.get(pinned);
+    if (!template) {
+      throw new Error(`Prompt template "${name}" has no version ${pinned} (pinned by PROMPT_VERSIONS)`);
+    }
+    return template;
+  }
+  return versions.get(Math.max(...Array.from(versions.keys())))!;
+}
+
+function parseTemplate(name: string, source: string): Node[] {
+  const stripped = source.replace(/^[ \t]*(\{\{\s*[#^\/][^}]*\}\})[ \t]*\r?\n/gm, '$1');
+  const root: Node[] = [];
+  const stack: Array<{ name: string; children: Node[] }> = [{ name: '', children: root }];
+  const tag = /\{\{\s*([#^\/>]?)\s*([\w.-]+)\s*\}\}/g;
+
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(stripped)) !== null) {
+    const children = stack[stack.length - 1].children;
+    if (match.index > last) children.push({ type: 'text', value: stripped.slice(last, match.index) });
+    last = tag.lastIndex;
+
+    const [, kind, tagName] = match;
+    if (kind === '#' || kind === '^') {
+      const section: Node = { type: 'section', name: tagName, inverted: kind === '^', children: [] };
+      children.push(section);
+      stack.push({ name: tagName, children: section.children });
+    } else if (kind === '/') {
+      if (stack.length === 1 || stack[stack.length - 1].name !== tagName) {
+        throw new Error(`Prompt template "${name}": unexpected {{/${tagName}}}`);
+      }
+      stack.pop();
+    } else if (kind === '>') {
+      children.push({ type: 'partial', name: tagName });
+    } else {
+      children.push({ type: 'variable', name: tagName });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Prompt template "${name}": {{#${stack[stack.length - 1].name}}} is never closed`);
+  }
+  if (last < stripped.length) root.push({ type: 'text', value: stripped.slice(last) });
+  return root;
+}
+
+function isSet(value: PromptVariables[string]): boolean {
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value);
+}
+
+function renderNodes(nodes: Node[], variables: PromptVariables, used: Record<string, string>, depth: number): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'variable': {
+        const value = variables[node.name];
+        output += value === undefined || value === null ? '' : String(value);
+        break;
+      }
+      case 'section':
+        if (isSet(variables[node.name]) !== node.inverted) {
+          output += renderNodes(node.children, variables, used, depth);
+        }
+        break;
+      case 'partial':
+        output += renderTemplate(node.name, variables, used, depth + 1);
+        break;
+    }
+  }
+  return output;
+}
+
+function renderTemplate(name: string, variables: PromptVariables, used: Record<string, string>, depth: number): string {
+  if (depth > MAX_PARTIAL_DEPTH) {
+    throw new Error(`Prompt template "${name}": partials nested too deeply`);
+  }
+  const template = getActiveTemplate(name);
+  used[name] = `v${template.version}`;
+  return renderNodes(parseTemplate(name, template.body), variables, used, depth);
+}
+
+// Renders the active version of a template and notes the versions it used
+// (including partials) for the current request
+export function renderPrompt(name: string, variables: PromptVariables = {}): string {
+  const used: Record<string, string> = {};
+  const output = renderTemplate(name, variables, used, 0);
+  Object.assign(promptTracking.getStore() ?? {}, used);
+  return output;
+}
+
+// Collects the template versions rendered while serving each API request
+export function promptTrackingMiddleware(_req: Request, _res: Response, next: NextFunction) {
+  promptTracking.run({}, next);
+}
+
+// Runs fn with its own record of rendered template versions, for background
+// jobs, which run outside the request that submitted them
+export function withPromptTracking<T>(fn: () => Promise<T>): Promise<T> {
+  return promptTracking.run({}, fn);
+}
+
+// Template versions rendered so far for the current request, e.g.
+// { "process-system": "v1", "no-dollar-signs": "v1" }
+export function getPromptVersions(): Record<string, string> {
+  return { ...promptTracking.getStore() };
+}
+
+export interface PromptTemplateSummary {
+  name: string;
+  active: string;
+  versions: Array<{ version: string; source: TemplateSource }>;
+}
+
+export function listPromptTemplates(): PromptTemplateSummary[] {
+  return Array.from(getTemplates().keys()).sort().map(name => ({
+    name,
+    active: `v${getActiveTemplate(name).version}`,
+    versions: Array.from(getTemplates().get(name)!.values())
+      .sort((a, b) => a.version - b.version)
+      .map(({ version, source }) => ({ version: `v${version}`, source })),
+  }));
+}
+
+// Saves a new version of a template to the database. It becomes the active
+// version unless PROMPT_VERSIONS pins another one.
+export async function savePromptTemplate(name: string, body: string): Promise<PromptTemplateSummary> {
+  // Reject templates that wouldn't render
+  parseTemplate(name, body);
+
+  const versions = getTemplates().get(name);
+  const version = versions && versions.size > 0 ? Math.max(...Array.from(versions.keys())) + 1 : 1;
+  const stored = await storage.createPromptTemplate({ name, version, body });
+  addTemplate(getTemplates(), name, { version: stored.version, body: stored.body, source: 'database' });
+  return listPromptTemplates().find(template => template.name === name)!;
+}
+
+// Instructions asking for less text turn off the "make it longer" rule
+const SHORTER_OUTPUT_KEYWORDS = ['shorter', 'summarize', 'reduce', 'condense', 'brief'];
+
+export interface ProcessPromptOptions {
+  instructions: string;
+  // Only the sources that are switched on
+  contentSource?: string;
+  styleSource?: string;
+  examMode?: boolean;
+}
+
+// System and user prompt for processing a document in a single request.
+// protectedMath is set when math was swapped for placeholder tokens first.
+export function renderProcessPrompts(
+  options: ProcessPromptOptions & { text: string; protectedMath?: boolean }
+): { system: string; user: string } {
+  const instructions = options.instructions.toLowerCase();
+  const shorter = SHORTER_OUTPUT_KEYWORDS.some(keyword => instructions.includes(keyword));
+  const variables: PromptVariables = { ...options, expandOutput: !shorter, conciseOutput: shorter };
+  return {
+    system: renderPrompt('process-system', variables),
+    user: renderPrompt('process-user', variables),
+  };
+}
+
+// System prompt and per-chunk user prompt for a document processed in chunks
+export function renderChunkPrompts(options: ProcessPromptOptions): {
+  system: string;
+  user: (chunk: string, index: number, total: number) => string;
+} {
+  const variables: PromptVariables = { ...options };
+  return {
+    system: renderPrompt('process-system', variables),
+    user: (chunk, index, total) => renderPrompt('process-chunk', { ...variables, chunk, chunkNumber: index + 1, totalChunks: total }),
+  };
+}
@@ -0,0 +1,104 @@
+import type { GenerationSettings } from '@shared/schema';
+import type { RewriteParams } from '../services/aiProviders';
+
+// Receives each text delta as a streaming completion arrives
+export type TokenHandler = (token: string) => void;
+
+// A chunk of a large document that still failed once the request scheduler
+// gave up retrying it
+export interface ChunkError {
+  chunkIndex: number;
+  totalChunks: number;
+  message: string;
+  status?: number;
+  attempts: number;
+  retryable: boolean;
+}
+
+export type ChunkErrorHandler = (error: ChunkError) => void;
+
+// Sent as each chunk of a large document finishes, in completion order
+export interface ChunkProgress {
+  chunkIndex: number;
+  completed: number;
+  totalChunks: number;
+  failed: boolean;
+  // The chunk's output; null when it failed
+  result: string | null;
+}
+
+export type ChunkProgressHandler = (progress: ChunkProgress) => void;
+
+// model/temperature/maxTokens override the provider's defaults when set
+export interface ProcessTextOptions extends GenerationSettings {
+  text: string;
+  instructions: string;
+  contentSource?: string;
+  styleSource?: string;
+  useContentSource: boolean;
+  useStyleSource?: boolean;
+  examMode?: boolean;
+  // When set, the completion is streamed through it. The promise still
+  // resolves to the full, post-processed result.
+  onToken?: TokenHandler;
+  // When set, chunks of a large document that fail are reported here and
+  // left out of the result instead of failing the whole request
+  onChunkError?: ChunkErrorHandler;
+  // When set, told as each chunk of a large document is done
+  onChunkProgress?: ChunkProgressHandler;
+}
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions extends GenerationSettings {
+  onToken?: TokenHandler;
+}
+
+// A JSON Schema document. ./structured.ts validates results against the
+// commonly used subset of keywords.
+export type JsonSchema = Record<string, unknown>;
+
+// A request for a reply that is a single JSON value matching `schema`.
+// model/temperature/maxTokens override the provider's defaults when set.
+export interface JSONCompletionOptions extends GenerationSettings {
+  system: string;
+  prompt: string;
+  schema: JsonSchema;
+  // Letters, digits, _ and - only; some APIs require a name for the schema
+  schemaName: string;
+}
+
+export interface AIDetectionResult {
+  isAI: boolean;
+  confidence: number;
+  details: string;
+}
+
+// What a provider can do - routes check these before dispatching
+export interface LLMCapabilities {
+  process: boolean;
+  chat: boolean;
+  rewrite: boolean;
+  homework: boolean;
+  detectAI: boolean;
+}
+
+// Every LLM backend is exposed to the routes through this single interface.
+// Adding a provider means writing one adapter that implements it and
+// registering it in ./registry.ts.
+export interface LLMProvider {
+  id: string;
+  label: string;
+  capabilities: LLMCapabilities;
+  process(options: ProcessTextOptions): Promise<string>;
+  chat(message: string, conversationHistory: ChatHistoryMessage[], contextDocument?: string, options?: ChatOptions): Promise<string>;
+  rewrite(params: RewriteParams): Promise<string>;
+  solveHomework(assignment: string): Promise<string>;
+  detectAI(text: string): Promise<AIDetectionResult>;
+  // Raw JSON text, using the API's structured output support where it has
+  // one. Not validated here - see generateStructured in ./structured.ts.
+  completeJSON(options: JSONCompletionOptions): Promise<string>;
+}
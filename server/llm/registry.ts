@@ -0,0 +1,46 @@
+import type { LLMProvider, LLMCapabilities } from './provider';
+import { openaiProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { perplexityProvider } from './perplexity';
+import { deepseekProvider } from './deepseek';
+import { customProvider } from './custom';
+import { mockProvider } from './mock';
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function hasProvider(id: string): boolean {
+  return providers.has(id);
+}
+
+export function getProvider(id: string): LLMProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unsupported LLM provider: ${id}`);
+  }
+  return provider;
+}
+
+// Look up a provider and make sure it supports the requested operation
+export function getProviderWithCapability(id: string, capability: keyof LLMCapabilities): LLMProvider {
+  const provider = getProvider(id);
+  if (!provider.capabilities[capability]) {
+    throw new Error(`LLM provider ${id} does not support ${capability}`);
+  }
+  return provider;
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+// Built-in providers
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(perplexityProvider);
+registerProvider(deepseekProvider);
+registerProvider(customProvider);
+registerProvider(mockProvider);
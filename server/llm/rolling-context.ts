@@ -0,0 +1,121 @@
+import { rollingContextSchema } from '@shared/schema';
+import type { GenerationSettings, RollingContext } from '@shared/schema';
+import type { LLMProvider } from './provider';
+import { renderPrompt } from './prompts';
+import { isCancelled } from './cancellation';
+
+// Rolling context for documents processed one chunk per request through
+// /api/process-chunk. The client sends back the context returned with each
+// chunk, and the next chunk's instructions carry
+//   - a running summary of the document so far,
+//   - the end of the previous processed chunk, to continue from,
+//   - the terms defined so far,
+// so terminology, tense and cross-references hold across chunk boundaries.
+// The summary and terms are brought up to date by one short extra request
+// per chunk, to the provider that processed it.
+
+// How much of the previous processed chunk is carried over
+const TAIL_CHARS = 1200;
+const SUMMARY_WORDS = 200;
+// Earlier definitions win; once the list is full new terms are dropped
+const MAX_TERMS = 50;
+
+const contextUpdateSchema = rollingContextSchema.pick({ summary: true, terms: true });
+
+type ContextUpdate = Pick<RollingContext, 'summary' | 'terms'>;
+
+export function emptyRollingContext(): RollingContext {
+  return { summary: '', previousTail: '', terms: [] };
+}
+
+function formatTerms(terms: RollingContext['terms']): string {
+  return terms.map(({ term, definition }) => `- ${term}: ${definition}`).join('\n');
+}
+
+// The end of a processed chunk, starting at a paragraph or sentence break
+// when there is one in the first half
+export function tailOf(text: string, maxChars: number = TAIL_CHARS): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+
+  const tail = trimmed.slice(-maxChars);
+  const paragraph = tail.indexOf('\n\n');
+  if (paragraph !== -1 && paragraph < maxChars / 2) return tail.slice(paragraph).trim();
+  const sentence = tail.search(/[.!?]\s/);
+  if (sentence !== -1 && sentence < maxChars / 2) return tail.slice(sentence + 1).trim();
+  return tail.trim();
+}
+
+// Instructions for one chunk of a larger document, with the rolling context
+// when there is one
+export function renderChunkInstructions(
+  instructions: string,
+  chunkIndex: number,
+  totalChunks: number,
+  context?: RollingContext
+): string {
+  // Without context the template ends on the line break before its sections
+  return renderPrompt('chunk-instructions', {
+    instructions,
+    chunkNumber: chunkIndex + 1,
+    totalChunks,
+    summary: context?.summary,
+    terms: formatTerms(context?.terms ?? []),
+    previousTail: context?.previousTail,
+  }).trimEnd();
+}
+
+function parseContextUpdate(reply: string): ContextUpdate | null {
+  // Models sometimes wrap the JSON in a code fence or a sentence
+  const json = reply.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+  try {
+    const parsed = contextUpdateSchema.safeParse(JSON.parse(json[0]));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function mergeTerms(known: RollingContext['terms'], added: RollingContext['terms']): RollingContext['terms'] {
+  const merged = [...known];
+  const seen = new Set(known.map(({ term }) => term.toLowerCase()));
+  for (const entry of added) {
+    if (merged.length >= MAX_TERMS) break;
+    if (seen.has(entry.term.toLowerCase())) continue;
+    seen.add(entry.term.toLowerCase());
+    merged.push(entry);
+  }
+  return merged;
+}
+
+// The context to send with the next chunk. If the summary and terms can't be
+// brought up to date the previous ones are kept, so a bad reply never fails
+// the chunk that was already processed.
+export async function advanceRollingContext(
+  provider: LLMProvider,
+  settings: GenerationSettings,
+  context: RollingContext,
+  processedChunk: string
+): Promise<RollingContext> {
+  const next: RollingContext = { ...context, previousTail: tailOf(processedChunk) };
+  try {
+    const reply = await provider.chat(renderPrompt('chunk-context-update', {
+      summary: context.summary,
+      terms: formatTerms(context.terms),
+      chunk: processedChunk,
+      summaryWords: SUMMARY_WORDS,
+    }), [], undefined, settings);
+
+    const update = parseContextUpdate(reply);
+    if (!update) {
+      console.warn(`Rolling context: ${provider.id} did not reply with the expected JSON; keeping the previous summary`);
+      return next;
+    }
+    return { ...next, summary: update.summary || context.summary, terms: mergeTerms(context.terms, update.terms) };
+  } catch (error) {
+    if (isCancelled()) throw error;
+    console.error('Failed to update rolling context:', error);
+    return next;
+  }
+}
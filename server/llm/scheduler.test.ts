@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  RequestScheduler,
+  getQuotaResetMs,
+  getRetryAfterMs,
+  joinChunkResults,
+  processChunks,
+  wrapError,
+  type RequestFailure
+} from './scheduler';
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('rate-limit headers', () => {
+  it('reads Retry-After as seconds, milliseconds or a date', () => {
+    expect(getRetryAfterMs({ 'retry-after': '2' })).toBe(2000);
+    expect(getRetryAfterMs({ 'retry-after-ms': '150' })).toBe(150);
+    const later = new Date(Date.now() + 60000).toUTCString();
+    expect(getRetryAfterMs({ 'retry-after': later })).toBeGreaterThan(55000);
+    expect(getRetryAfterMs({})).toBeNull();
+  });
+
+  it('waits for an exhausted quota to reset', () => {
+    expect(getQuotaResetMs({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '6m0s' })).toBe(360000);
+    expect(getQuotaResetMs({ 'x-ratelimit-remaining-requests': '3', 'x-ratelimit-reset-requests': '1s' })).toBeNull();
+  });
+});
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+    process.env.LLM_RETRY_MAX_DELAY_MS = '5';
+    process.env.LLM_MAX_RETRIES = '2';
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_RETRY_BASE_DELAY_MS;
+    delete process.env.LLM_RETRY_MAX_DELAY_MS;
+    delete process.env.LLM_MAX_RETRIES;
+    delete process.env.LLM_MAX_CONCURRENCY;
+  });
+
+  it('retries a 429 or 5xx until it succeeds', async () => {
+    const scheduler = new RequestScheduler('test');
+    let calls = 0;
+    const result = await scheduler.run(async () => {
+      calls++;
+      if (calls === 1) throw httpError(429);
+      if (calls === 2) throw httpError(503);
+      return 'ok';
+    });
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('gives up after the configured retries with the status and attempts', async () => {
+    const scheduler = new RequestScheduler('test');
+    const failure = await scheduler.run(async () => { throw httpError(500); }).catch(error => error as RequestFailure);
+    expect(failure.status).toBe(500);
+    expect(failure.attempts).toBe(3);
+    expect(failure.retryable).toBe(true);
+  });
+
+  it('does not retry a client error', async () => {
+    const scheduler = new RequestScheduler('test');
+    let calls = 0;
+    const failure = await scheduler.run(async () => {
+      calls++;
+      throw httpError(400);
+    }).catch(error => error as RequestFailure);
+    expect(calls).toBe(1);
+    expect(failure.retryable).toBe(false);
+  });
+
+  it('still sees the status behind an error reworded by wrapError', async () => {
+    const scheduler = new RequestScheduler('test');
+    let calls = 0;
+    await scheduler.run(async () => {
+      calls++;
+      if (calls === 1) throw wrapError('Failed to process text with OpenAI', httpError(429));
+      return 'ok';
+    });
+    expect(calls).toBe(2);
+
+    const wrapped = wrapError('Failed', Object.assign(httpError(503), { attempts: 5, retryable: true })) as RequestFailure;
+    expect(wrapped.message).toBe('Failed: HTTP 503');
+    expect(wrapped.status).toBe(503);
+    expect(wrapped.attempts).toBe(5);
+    expect(wrapped.retryable).toBe(true);
+  });
+
+  it('caps how many requests run at once', async () => {
+    process.env.LLM_MAX_CONCURRENCY = '2';
+    const scheduler = new RequestScheduler('test');
+    let active = 0;
+    let peak = 0;
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.run(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    })));
+    expect(peak).toBe(2);
+  });
+});
+
+describe('processChunks', () => {
+  it('returns results in chunk order however the requests finish', async () => {
+    const { results, failed } = await processChunks('test', ['a', 'b', 'c', 'd'], async (chunk, index) => {
+      await delay((4 - index) * 3);
+      return chunk.toUpperCase();
+    });
+    expect(results).toEqual(['A', 'B', 'C', 'D']);
+    expect(failed).toEqual([]);
+  });
+
+  it('reports failed chunks and marks the gaps when joined', async () => {
+    const errors: number[] = [];
+    const outcome = await processChunks('test', ['a', 'b', 'c'], async (chunk, index) => {
+      if (index === 1) throw httpError(400);
+      return chunk;
+    }, { onChunkError: (error) => errors.push(error.chunkIndex) });
+    expect(errors).toEqual([1]);
+    expect(outcome).toEqual({ results: ['a', null, 'c'], failed: [1] });
+    expect(joinChunkResults(outcome)).toBe('a\n\n[Section 2 of 3 could not be processed]\n\nc');
+  });
+
+  it('throws the first failure without an error handler', async () => {
+    await expect(processChunks('test', ['a', 'b'], async () => { throw httpError(400); })).rejects.toThrow('HTTP 400');
+  });
+
+  it('streams the joined text in order as chunks finish', async () => {
+    const tokens: string[] = [];
+    const outcome = await processChunks('test', ['a', 'b', 'c'], async (chunk, index) => {
+      await delay((3 - index) * 3);
+      if (index === 1) throw httpError(400);
+      return chunk;
+    }, { onToken: (token) => tokens.push(token), onChunkError: () => {} });
+    expect(tokens.join('')).toBe(joinChunkResults(outcome));
+  });
+});
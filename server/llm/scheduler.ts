@@ -0,0 +1,411 @@
+// Per-provider request scheduler. Every outbound LLM request goes through
+// the scheduler for its provider, which
+//   - caps how many requests run at once,
+//   - pauses the whole provider when rate-limit headers say the quota is used
+//     up (or a 429 says when to come back),
+//   - retries 429/5xx/network failures with exponential backoff and jitter,
+//   - gives up straight away when the request it serves is cancelled.
+//
+// Configured with env vars; a provider-specific one wins over the global one:
+//   LLM_MAX_CONCURRENCY / LLM_<PROVIDER>_MAX_CONCURRENCY               default 4
+//   LLM_CHUNK_CONCURRENCY / LLM_<PROVIDER>_CHUNK_CONCURRENCY           default 3
+//   LLM_MAX_RETRIES / LLM_<PROVIDER>_MAX_RETRIES                       default 4
+//   LLM_RETRY_BASE_DELAY_MS                                            default 1000
+//   LLM_RETRY_MAX_DELAY_MS                                             default 60000
+//
+// MAX_CONCURRENCY caps the provider as a whole; CHUNK_CONCURRENCY is how many
+// chunks of one document are in flight at once (see processChunks), so one
+// large document doesn't take every slot.
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { ChunkError, ChunkErrorHandler, ChunkProgressHandler, TokenHandler } from './provider';
+import { getAbortSignal, isCancelled, throwIfCancelled } from './cancellation';
+
+type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | null | undefined>
+  | null
+  | undefined;
+
+export interface SchedulerConfig {
+  maxConcurrency: number;
+  chunkConcurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// What callers see once the scheduler has given up on a request
+export interface RequestFailure extends Error {
+  status?: number;
+  attempts: number;
+  retryable: boolean;
+}
+
+export interface ScheduleOptions {
+  // Checked before each retry; streaming requests say no once tokens have
+  // been passed on, since a retry would repeat them
+  canRetry?: () => boolean;
+}
+
+function readIntEnv(names: string[], fallback: number): number {
+  for (const name of names) {
+    const value = parseInt(process.env[name] || '', 10);
+    if (!Number.isNaN(value) && value >= 0) return value;
+  }
+  return fallback;
+}
+
+export function getSchedulerConfig(provider: string): SchedulerConfig {
+  const prefix = `LLM_${provider.toUpperCase()}_`;
+  return {
+    maxConcurrency: Math.max(1, readIntEnv([`${prefix}MAX_CONCURRENCY`, 'LLM_MAX_CONCURRENCY'], 4)),
+    chunkConcurrency: Math.max(1, readIntEnv([`${prefix}CHUNK_CONCURRENCY`, 'LLM_CHUNK_CONCURRENCY'], 3)),
+    maxRetries: readIntEnv([`${prefix}MAX_RETRIES`, 'LLM_MAX_RETRIES'], 4),
+    baseDelayMs: readIntEnv(['LLM_RETRY_BASE_DELAY_MS'], 1000),
+    maxDelayMs: readIntEnv(['LLM_RETRY_MAX_DELAY_MS'], 60000),
+  };
+}
+
+function readHeader(headers: HeaderSource, name: string): string | null {
+  if (!headers) return null;
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name);
+  }
+  const value = (headers as Record<string, string | string[] | null | undefined>)[name];
+  return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+// OpenAI-style reset durations look like "1s", "6m0s" or "250ms"
+function parseDuration(value: string): number | null {
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return null;
+  let ms = 0;
+  for (const part of parts) {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+    const n = parseFloat(amount);
+    ms += unit === 'h' ? n * 3600000 : unit === 'm' ? n * 60000 : unit === 's' ? n * 1000 : n;
+  }
+  return ms;
+}
+
+// Accepts seconds, an HTTP/ISO date or a Go-style duration
+function parseResetTime(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value) * 1000;
+  const duration = parseDuration(value);
+  if (duration !== null && !/[-:T]/.test(value)) return duration;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// How long the server asked us to wait before the next request, if it said
+export function getRetryAfterMs(headers: HeaderSource): number | null {
+  const retryAfterMs = readHeader(headers, 'retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) return Number(retryAfterMs);
+  return parseResetTime(readHeader(headers, 'retry-after'));
+}
+
+// When the response says a request or token quota is exhausted, how long
+// until it resets
+export function getQuotaResetMs(headers: HeaderSource): number | null {
+  const quotas = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+  ];
+
+  let wait: number | null = null;
+  for (const [remainingHeader, resetHeader] of quotas) {
+    if (readHeader(headers, remainingHeader) !== '0') continue;
+    const reset = parseResetTime(readHeader(headers, resetHeader));
+    if (reset !== null) wait = Math.max(wait ?? 0, reset);
+  }
+  return wait;
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// Errors reworded by wrapError keep the original as their cause
+function getStatus(error: any): number | undefined {
+  if (typeof error?.status === 'number') return error.status;
+  return error?.cause instanceof Error ? getStatus(error.cause) : undefined;
+}
+
+function isRetryable(error: any): boolean {
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  // No status: only retry when the request never got a response (dropped
+  // connection, timeout, DNS hiccup), not on bugs or missing config
+  if (error instanceof OpenAI.APIConnectionError || error instanceof Anthropic.APIConnectionError) {
+    return true;
+  }
+  const code = error?.code ?? error?.cause?.code;
+  if (NETWORK_ERROR_CODES.includes(code) || (error instanceof TypeError && error.message === 'fetch failed' && !code)) {
+    return true;
+  }
+  return error?.cause instanceof Error ? isRetryable(error.cause) : false;
+}
+
+// Rewords a provider error for the caller. The fields the scheduler,
+// fallback and chunk reports read (status, headers, attempts, retryable) are
+// kept, and the original error is the cause.
+export function wrapError(message: string, error: unknown): Error {
+  const detail = error instanceof Error ? error.message : 'Unknown error';
+  const wrapped = new Error(`${message}: ${detail}`, { cause: error }) as Error & Record<string, unknown>;
+  if (error && typeof error === 'object') {
+    for (const key of ['status', 'headers', 'attempts', 'retryable']) {
+      if (key in error) wrapped[key] = (error as Record<string, unknown>)[key];
+    }
+  }
+  return wrapped;
+}
+
+function backoffDelay(attempt: number, config: SchedulerConfig): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  // "Equal jitter": at least half the backoff, plus a random share of the rest
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function toRequestFailure(error: any, attempts: number, retryable: boolean): RequestFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  const failure = new Error(
+    retryable ? `Gave up after ${attempts} attempts: ${message}` : message
+  ) as RequestFailure;
+  failure.status = getStatus(error);
+  failure.attempts = attempts;
+  failure.retryable = retryable;
+  return failure;
+}
+
+// Turns a non-2xx fetch response into an error the scheduler can classify
+// and honour Retry-After on, like the SDKs' own errors
+export async function responseError(response: Response): Promise<Error> {
+  const detail = await response.text().catch(() => '');
+  const error = new Error(`API error ${response.status}${detail ? ` - ${detail}` : ` ${response.statusText}`}`) as Error & {
+    status: number;
+    headers: Headers;
+  };
+  error.status = response.status;
+  error.headers = response.headers;
+  return error;
+}
+
+export function toChunkError(error: any, chunkIndex: number, totalChunks: number): ChunkError {
+  return {
+    chunkIndex,
+    totalChunks,
+    message: error instanceof Error ? error.message : String(error),
+    status: getStatus(error),
+    attempts: typeof error?.attempts === 'number' ? error.attempts : 1,
+    retryable: Boolean(error?.retryable),
+  };
+}
+
+export interface ChunkHandlers {
+  onChunkError?: ChunkErrorHandler;
+  onChunkProgress?: ChunkProgressHandler;
+  // Streams the document as its chunks finish: each result is passed on
+  // whole, in chunk order, once every chunk before it is done
+  onToken?: TokenHandler;
+}
+
+// Chunk results are joined with a blank line between them
+const CHUNK_SEPARATOR = '\n\n';
+
+export interface ChunkResults {
+  // One per chunk, in order: null for a chunk that failed, or that was never
+  // started because the request was cancelled
+  results: Array<string | null>;
+  // Indexes of the chunks that failed
+  failed: number[];
+}
+
+// Stands in for a chunk that failed, so the gap shows in the text
+export function chunkGapMarker(index: number, totalChunks: number): string {
+  return `[Section ${index + 1} of ${totalChunks} could not be processed]`;
+}
+
+// The results in order, with a marker where a chunk failed. Chunks never
+// started are left out.
+export function joinChunkResults({ results, failed }: ChunkResults): string {
+  return results
+    .flatMap((result, index) => result !== null
+      ? [result]
+      : failed.includes(index) ? [chunkGapMarker(index, results.length)] : [])
+    .join(CHUNK_SEPARATOR);
+}
+
+// Runs one request per chunk, up to the provider's chunk concurrency at a
+// time; the scheduler still caps and paces the requests themselves. Results
+// come back in chunk order however the requests finish, and each finished
+// chunk is reported through onChunkProgress. With onToken the joined text
+// is streamed too, as far as the chunks are done in order.
+//
+// A chunk that fails is reported through onChunkError and listed in
+// `failed`; joinChunkResults marks the gap. Without a handler no further
+// chunks are started and the first failure is thrown; it is also thrown when
+// every chunk fails. Once the request is cancelled no further chunks are
+// started and the finished ones are returned.
+export async function processChunks(
+  provider: string,
+  chunks: string[],
+  processChunk: (chunk: string, index: number) => Promise<string>,
+  { onChunkError, onChunkProgress, onToken }: ChunkHandlers = {}
+): Promise<ChunkResults> {
+  const results: Array<string | null> = new Array(chunks.length).fill(null);
+  const failedIndexes: number[] = [];
+  const done: boolean[] = new Array(chunks.length).fill(false);
+  let next = 0;
+  let completed = 0;
+  let firstError: unknown = null;
+  let stopped = false;
+  let streamed = 0;
+  let streamedAny = false;
+
+  // Passes on the results of the chunks done since the last one streamed
+  const stream = () => {
+    while (onToken && streamed < chunks.length && done[streamed]) {
+      const index = streamed++;
+      const text = results[index] ?? chunkGapMarker(index, chunks.length);
+      onToken(streamedAny ? CHUNK_SEPARATOR + text : text);
+      streamedAny = true;
+    }
+  };
+
+  const worker = async () => {
+    while (next < chunks.length && !stopped) {
+      if (isCancelled()) {
+        console.log(`Cancelled with ${chunks.length - next} of ${chunks.length} chunks not started`);
+        return;
+      }
+      const i = next++;
+      console.log(`Processing chunk ${i + 1}/${chunks.length} - ${chunks[i].length} characters`);
+      let failed = false;
+      try {
+        results[i] = await processChunk(chunks[i], i);
+      } catch (error) {
+        if (isCancelled()) continue;
+        console.error(`Error processing chunk ${i + 1}:`, error);
+        failed = true;
+        firstError = firstError ?? error;
+        failedIndexes.push(i);
+        if (!onChunkError) {
+          stopped = true;
+          continue;
+        }
+        onChunkError(toChunkError(error, i, chunks.length));
+      }
+      completed++;
+      done[i] = true;
+      stream();
+      onChunkProgress?.({ chunkIndex: i, completed, totalChunks: chunks.length, failed, result: results[i] });
+    }
+  };
+
+  const concurrency = Math.min(getSchedulerConfig(provider).chunkConcurrency, chunks.length);
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  if (stopped) throw firstError;
+  if (results.every(result => result === null)) {
+    throwIfCancelled();
+    if (firstError) throw firstError;
+  }
+  return { results, failed: failedIndexes.sort((a, b) => a - b) };
+}
+
+// Waits ms, or less if the current request is cancelled meanwhile
+function sleep(ms: number): Promise<void> {
+  const signal = getAbortSignal();
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export class RequestScheduler {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+
+  constructor(readonly provider: string) {}
+
+  // Records rate-limit headers from a response so later requests wait for
+  // the quota to reset instead of running into a 429
+  observe(headers: HeaderSource): void {
+    const wait = getQuotaResetMs(headers);
+    if (wait) this.pauseFor(wait);
+  }
+
+  async run<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const config = getSchedulerConfig(this.provider);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(config.maxConcurrency);
+      let error: any;
+      try {
+        throwIfCancelled();
+        return await task();
+      } catch (caught) {
+        error = caught;
+      } finally {
+        this.release();
+      }
+
+      // An aborted request fails with the SDK's abort error; pass that on as is
+      throwIfCancelled();
+      const retryable = isRetryable(error) && (options.canRetry?.() ?? true);
+      if (!retryable || attempt >= config.maxRetries) {
+        throw toRequestFailure(error, attempt + 1, retryable);
+      }
+
+      const retryAfter = getRetryAfterMs(error?.headers);
+      if (retryAfter !== null) this.pauseFor(retryAfter);
+      const delay = retryAfter ?? backoffDelay(attempt, config);
+      console.warn(`${this.provider} request failed (${error?.message}); retry ${attempt + 1}/${config.maxRetries} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async acquire(maxConcurrency: number): Promise<void> {
+    while (this.active >= maxConcurrency) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    const pause = this.pausedUntil - Date.now();
+    if (pause > 0) {
+      console.log(`${this.provider} rate limit reached, waiting ${Math.round(pause)}ms`);
+      await sleep(pause);
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+const schedulers = new Map<string, RequestScheduler>();
+
+export function getScheduler(provider: string): RequestScheduler {
+  let scheduler = schedulers.get(provider);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(provider);
+    schedulers.set(provider, scheduler);
+  }
+  return scheduler;
+}
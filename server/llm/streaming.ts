@@ -0,0 +1,258 @@
+import type OpenAI from 'openai';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { TokenHandler } from './provider';
+import { getScheduler, responseError } from './scheduler';
+import { recordUsage, estimateUsage } from './usage';
+import { cachedCompletion } from './cache';
+import { getAbortSignal } from './cancellation';
+
+// Completion helpers shared by the provider adapters. Without an onToken
+// handler they make an ordinary request; with one they stream and pass each
+// text delta along. Either way they resolve to the full raw completion, so
+// callers keep their existing post-processing.
+//
+// Requests go through the provider's scheduler (./scheduler.ts), which
+// queues, paces and retries them. A streamed request is only retried if it
+// failed before its first token was passed on. Each completed call has its
+// token usage recorded (./usage.ts), counted locally if the API didn't say.
+// When the response cache is on (./cache.ts), a repeated request is answered
+// from it before any of that happens.
+
+interface ReportedUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function recordCompletion(
+  provider: string,
+  model: string,
+  prompt: Array<{ content?: unknown }> | undefined,
+  completion: string,
+  usage: ReportedUsage | null
+): void {
+  if (usage) {
+    recordUsage({ provider, model, ...usage });
+    return;
+  }
+  const promptText = (prompt ?? []).map(msg => (typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content))).join('\n');
+  recordUsage(estimateUsage(provider, model, promptText, completion));
+}
+
+function fromOpenAIUsage(usage: { prompt_tokens: number; completion_tokens: number } | null | undefined): ReportedUsage | null {
+  return usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : null;
+}
+
+export async function completeWithOpenAIClient(
+  provider: string,
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  return cachedCompletion(provider, params.model, params, onToken, () => requestOpenAICompletion(provider, client, params, onToken));
+}
+
+async function requestOpenAICompletion(
+  provider: string,
+  client: OpenAI,
+  params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  const scheduler = getScheduler(provider);
+
+  if (!onToken) {
+    return scheduler.run(async () => {
+      const { data, response } = await client.chat.completions.create(params, { signal: getAbortSignal() }).withResponse();
+      scheduler.observe(response.headers);
+      const result = data.choices[0]?.message?.content || '';
+      recordCompletion(provider, params.model, params.messages, result, fromOpenAIUsage(data.usage));
+      return result;
+    });
+  }
+
+  let emitted = false;
+  return scheduler.run(async () => {
+    const { data: stream, response } = await client.chat.completions.create({
+      ...params,
+      stream: true,
+      // Ask for a final chunk carrying the token usage
+      stream_options: { include_usage: true }
+    }, { signal: getAbortSignal() }).withResponse();
+    scheduler.observe(response.headers);
+    let result = '';
+    let usage: ReportedUsage | null = null;
+    for await (const chunk of stream) {
+      usage = fromOpenAIUsage(chunk.usage) ?? usage;
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        result += token;
+        emitted = true;
+        onToken(token);
+      }
+    }
+    recordCompletion(provider, params.model, params.messages, result, usage);
+    return result;
+  }, { canRetry: () => !emitted });
+}
+
+export async function completeWithAnthropicClient(
+  provider: string,
+  client: Anthropic,
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  return cachedCompletion(provider, params.model, params, onToken, () => requestAnthropicCompletion(provider, client, params, onToken));
+}
+
+async function requestAnthropicCompletion(
+  provider: string,
+  client: Anthropic,
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  onToken?: TokenHandler
+): Promise<string> {
+  const scheduler = getScheduler(provider);
+
+  if (!onToken) {
+    return scheduler.run(async () => {
+      const { data: message, response } = await client.messages.create(params, { signal: getAbortSignal() }).withResponse();
+      scheduler.observe(response.headers);
+      const contentBlock = message.content[0];
+      // A forced tool call (structured output) replies with the tool's input
+      const result = contentBlock?.type === 'text'
+        ? contentBlock.text
+        : contentBlock?.type === 'tool_use' ? JSON.stringify(contentBlock.input) : '';
+      recordUsage({
+        provider,
+        model: params.model,
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens
+      });
+      return result;
+    });
+  }
+
+  let emitted = false;
+  return scheduler.run(async () => {
+    const { data: stream, response } = await client.messages.create({ ...params, stream: true }, { signal: getAbortSignal() }).withResponse();
+    scheduler.observe(response.headers);
+    let result = '';
+    // Input tokens arrive with message_start, the output count with message_delta
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        usage.inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        result += event.delta.text;
+        emitted = true;
+        onToken(event.delta.text);
+      }
+    }
+    recordUsage({ provider, model: params.model, ...usage });
+    return result;
+  }, { canRetry: () => !emitted });
+}
+
+// Same as completeWithOpenAIClient for OpenAI-compatible APIs we call with
+// plain fetch. `body` is the request body minus `stream`.
+export async function completeWithFetch(
+  provider: string,
+  url: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  onToken?: TokenHandler
+): Promise<string> {
+  return cachedCompletion(provider, String(body.model), { url, body }, onToken, () => requestFetchCompletion(provider, url, apiKey, body, onToken));
+}
+
+async function requestFetchCompletion(
+  provider: string,
+  url: string,
+  apiKey: string,
+  body: Record<string, unknown>,
+  onToken?: TokenHandler
+): Promise<string> {
+  const scheduler = getScheduler(provider);
+  let emitted = false;
+
+  return scheduler.run(async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(onToken
+        ? { ...body, stream: true, stream_options: { include_usage: true } }
+        : { ...body, stream: false }),
+      signal: getAbortSignal(),
+    });
+    scheduler.observe(response.headers);
+
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+
+    const model = String(body.model);
+    const messages = body.messages as Array<{ content?: unknown }> | undefined;
+
+    if (!onToken) {
+      const data = await response.json();
+      const result = data.choices?.[0]?.message?.content || '';
+      recordCompletion(provider, model, messages, result, fromOpenAIUsage(data.usage));
+      return result;
+    }
+
+    let result = '';
+    let usage: ReportedUsage | null = null;
+    for await (const token of readCompletionStream(response, (reported) => { usage = fromOpenAIUsage(reported); })) {
+      result += token;
+      emitted = true;
+      onToken(token);
+    }
+    recordCompletion(provider, model, messages, result, usage);
+    return result;
+  }, { canRetry: () => !emitted });
+}
+
+// Reads an OpenAI-style SSE response body (used for providers we call with
+// plain fetch) and yields the content delta of each event. Usage, when an
+// event carries it, is passed to onUsage.
+export async function* readCompletionStream(
+  response: Response,
+  onUsage?: (usage: { prompt_tokens: number; completion_tokens: number }) => void
+): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+      let event;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // Ignore keep-alives and partial events
+        continue;
+      }
+      if (event.usage && onUsage) onUsage(event.usage);
+      const token = event.choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { outputSchemaSchema } from '@shared/schema';
+import type { LLMProvider, JSONCompletionOptions } from './provider';
+import { generateStructured, parseJsonReply, validateJson } from './structured';
+
+// A provider whose completeJSON hands out the given replies in turn
+function scriptedProvider(replies: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  const unused = () => { throw new Error('not used'); };
+  return {
+    id: 'scripted',
+    label: 'Scripted',
+    capabilities: { process: true, chat: false, rewrite: false, homework: false, detectAI: false },
+    process: unused,
+    chat: unused,
+    rewrite: unused,
+    solveHomework: unused,
+    detectAI: unused,
+    prompts,
+    completeJSON: async (options: JSONCompletionOptions) => {
+      prompts.push(options.prompt);
+      const reply = replies.shift();
+      if (reply === undefined) throw new Error('no more replies');
+      return reply;
+    },
+  };
+}
+
+const termsSchema = {
+  type: 'object',
+  required: ['terms'],
+  additionalProperties: false,
+  properties: {
+    terms: { type: 'array', minItems: 1, items: { type: 'string', pattern: '^[a-z]+$' } },
+  },
+};
+
+describe('validateJson', () => {
+  it('accepts a matching value', () => {
+    expect(validateJson({ terms: ['graph', 'node'] }, termsSchema)).toEqual([]);
+  });
+
+  it('reports where a value goes wrong', () => {
+    expect(validateJson({ terms: ['Graph'], extra: 1 }, termsSchema)).toEqual([
+      '$.terms[0]: must match /^[a-z]+$/',
+      '$: unexpected property "extra"',
+    ]);
+    expect(validateJson({}, termsSchema)).toEqual(['$: missing required property "terms"']);
+    expect(validateJson('terms', termsSchema)).toEqual(['$: expected object, got string']);
+  });
+});
+
+describe('parseJsonReply', () => {
+  it('reads JSON inside a code fence or a sentence', () => {
+    expect(parseJsonReply('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 } });
+    expect(parseJsonReply('Here you go: [1, 2] - done')).toEqual({ value: [1, 2] });
+  });
+
+  it('reports a reply that is not JSON', () => {
+    expect(parseJsonReply('')).toEqual({ problem: 'the reply was empty' });
+    expect(parseJsonReply('no json here')).toHaveProperty('problem');
+  });
+});
+
+describe('generateStructured', () => {
+  const request = { instructions: 'List the terms', text: 'Graphs have nodes.', schema: termsSchema };
+
+  it('returns the first valid reply', async () => {
+    const provider = scriptedProvider(['{"terms": ["graph"]}']);
+    expect(await generateStructured(provider, request)).toEqual({ data: { terms: ['graph'] }, attempts: 1 });
+  });
+
+  it('repairs an invalid reply by sending back its problems', async () => {
+    const provider = scriptedProvider(['not json', '{"terms": ["Graph"]}', '{"terms": ["graph"]}']);
+    const result = await generateStructured(provider, request);
+    expect(result).toEqual({ data: { terms: ['graph'] }, attempts: 3 });
+    expect(provider.prompts[1]).toContain('not valid JSON');
+    expect(provider.prompts[2]).toContain('$.terms[0]: must match /^[a-z]+$/');
+  });
+
+  it('gives up after three invalid replies', async () => {
+    const provider = scriptedProvider(['{}', '{}', '{}', '{"terms": ["graph"]}']);
+    await expect(generateStructured(provider, request)).rejects.toThrow('did not return JSON matching the schema after 3 attempts');
+    expect(provider.prompts).toHaveLength(3);
+  });
+
+  it('validates with zod when given a zod schema', async () => {
+    const provider = scriptedProvider(['{"count": "two"}', '{"count": 2}']);
+    const result = await generateStructured(provider, { ...request, schema: z.object({ count: z.number() }) });
+    expect(result).toEqual({ data: { count: 2 }, attempts: 2 });
+  });
+
+  it('rejects an invalid pattern before asking the provider', async () => {
+    const provider = scriptedProvider(['{"code": "a"}']);
+    const schema = { type: 'object', properties: { code: { type: 'string', pattern: '([a-z' } } };
+    await expect(generateStructured(provider, { ...request, schema })).rejects.toThrow('$.properties.code.pattern');
+    expect(provider.prompts).toHaveLength(0);
+  });
+});
+
+describe('outputSchemaSchema', () => {
+  it('rejects schemas with invalid patterns when the request is parsed', () => {
+    const result = outputSchemaSchema.safeParse({ type: 'array', items: { type: 'string', pattern: '(' } });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('$.items.pattern is not a valid regular expression');
+  });
+
+  it('ignores pattern keys inside data keywords', () => {
+    expect(outputSchemaSchema.safeParse({ const: { pattern: '(' } }).success).toBe(true);
+    expect(outputSchemaSchema.safeParse(termsSchema).success).toBe(true);
+  });
+});
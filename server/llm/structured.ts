@@ -0,0 +1,345 @@
+import { z, type ZodTypeAny } from 'zod';
+import { findInvalidPatterns, type GenerationSettings } from '@shared/schema';
+import type { LLMProvider, JsonSchema } from './provider';
+import { renderPrompt } from './prompts';
+
+// Structured output: a reply that is a single JSON value matching a schema,
+// given either as a JSON Schema or as a zod schema. Providers use their API's
+// structured output support where there is one (see completeJSON in each
+// adapter); either way the reply is parsed and validated here, and when it
+// doesn't match the provider is shown the problems and asked again.
+//
+// Validation covers the commonly used JSON Schema keywords: type, enum,
+// const, properties, required, additionalProperties, items, min/maxItems,
+// min/maxLength, minimum/maximum, pattern, anyOf, oneOf and allOf. Other
+// keywords ($ref included) are ignored. Zod schemas are validated with zod.
+
+// The first request plus up to two repairs
+const MAX_ATTEMPTS = 3;
+const MAX_REPORTED_PROBLEMS = 20;
+// How much of a bad reply is quoted back in the repair request
+const MAX_QUOTED_REPLY_CHARS = 4000;
+const DEFAULT_SCHEMA_NAME = 'structured_output';
+
+export interface StructuredRequest extends GenerationSettings {
+  instructions: string;
+  text: string;
+  contentSource?: string;
+  schema: JsonSchema | ZodTypeAny;
+  // Defaults to the schema's title
+  schemaName?: string;
+}
+
+export interface StructuredResult<T = unknown> {
+  data: T;
+  // 1 when the first reply was valid
+  attempts: number;
+}
+
+type JsonType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'array' | 'object';
+
+function isZodSchema(schema: JsonSchema | ZodTypeAny): schema is ZodTypeAny {
+  return schema instanceof z.ZodType;
+}
+
+// JSON Schema for the zod types a result schema is usually made of
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const converted = convertZod(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convertZod(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return zodToJsonSchema(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, ZodTypeAny> = schema.shape;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, required, additionalProperties: schema._def.unknownKeys === 'passthrough' };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(minLength ? { minItems: minLength.value } : {}),
+      ...(maxLength ? { maxItems: maxLength.value } : {}),
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    return {
+      type: 'string',
+      ...(schema.minLength !== null ? { minLength: schema.minLength } : {}),
+      ...(schema.maxLength !== null ? { maxLength: schema.maxLength } : {}),
+    };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+      ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {}),
+    };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return {};
+  throw new Error(`Structured output: zod type ${schema._def.typeName} can't be converted to JSON Schema`);
+}
+
+function jsonTypeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  const actual = jsonTypeOf(value);
+  const allowed = Array.isArray(type) ? type : [type];
+  return allowed.some(expected => expected === actual || (expected === 'number' && actual === 'integer'));
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Problems with `value` as a match for `schema`, each prefixed with where in
+// the value it is ($ for the root). Empty when the value matches.
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const problems: string[] = [];
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : String(schema.type);
+    // Nothing else can be checked usefully against the wrong type
+    return [`${path}: expected ${expected}, got ${jsonTypeOf(value)}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    problems.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    problems.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const part of schema.allOf.filter(isSchema)) problems.push(...validateJson(value, part, path));
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const options = schema[keyword];
+    if (!Array.isArray(options)) continue;
+    const results = options.filter(isSchema).map(option => validateJson(value, option, path));
+    const matching = results.filter(result => result.length === 0).length;
+    if (matching === 0) {
+      // The closest option's problems are the most useful to report
+      problems.push(...results.reduce((best, result) => (result.length < best.length ? result : best)));
+    } else if (keyword === 'oneOf' && matching > 1) {
+      problems.push(`${path}: matches more than one of the allowed forms`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      problems.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      problems.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      problems.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      problems.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      problems.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      problems.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      problems.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      const items = schema.items;
+      value.forEach((item, index) => problems.push(...validateJson(item, items, `${path}[${index}]`)));
+    }
+  }
+
+  if (jsonTypeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (!(key in object)) problems.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertyPath = /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+      const propertySchema = properties[key];
+      if (isSchema(propertySchema)) {
+        problems.push(...validateJson(propertyValue, propertySchema, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}: unexpected property "${key}"`);
+      } else if (isSchema(schema.additionalProperties)) {
+        problems.push(...validateJson(propertyValue, schema.additionalProperties, propertyPath));
+      }
+    }
+  }
+
+  return problems;
+}
+
+function validateZod(value: unknown, schema: ZodTypeAny): { problems: string[]; data?: unknown } {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return { problems: [], data: parsed.data };
+  return {
+    problems: parsed.error.issues.map(issue => {
+      const path = issue.path.map(part => (typeof part === 'number' ? `[${part}]` : `.${part}`)).join('');
+      return `$${path}: ${issue.message}`;
+    }),
+  };
+}
+
+// Parses a reply that should be a JSON value. Tolerates a code fence or a
+// sentence around it, which prompt-only providers sometimes add.
+export function parseJsonReply(reply: string): { value: unknown } | { problem: string } {
+  const trimmed = reply.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/i, '$1').trim();
+  if (!trimmed) return { problem: 'the reply was empty' };
+  try {
+    return { value: JSON.parse(trimmed) };
+  } catch (error) {
+    const start = trimmed.search(/[{[]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(trimmed.slice(start, end + 1)) };
+      } catch {
+        // Report the error for the whole reply
+      }
+    }
+    return { problem: `the reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+}
+
+// The simplest value matching a schema - what the offline mock provider
+// replies with
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+    const options = schema[keyword];
+    if (Array.isArray(options) && isSchema(options[0])) return sampleFromSchema(options[0]);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type ?? (isSchema(schema.properties) ? 'object' : undefined);
+  switch (type) {
+    case 'object': {
+      const properties = isSchema(schema.properties) ? schema.properties : {};
+      return Object.fromEntries(Object.entries(properties)
+        .filter(([, property]) => isSchema(property))
+        .map(([key, property]) => [key, sampleFromSchema(property as JsonSchema)]));
+    }
+    case 'array': {
+      const count = typeof schema.minItems === 'number' ? Math.max(schema.minItems, 1) : 1;
+      return Array.from({ length: count }, () => (isSchema(schema.items) ? sampleFromSchema(schema.items) : null));
+    }
+    case 'string': {
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return 'example'.padEnd(minLength, '.');
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function schemaNameFor(request: StructuredRequest, schema: JsonSchema): string {
+  const name = request.schemaName || (typeof schema.title === 'string' ? schema.title : '') || DEFAULT_SCHEMA_NAME;
+  return name.replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 64) || DEFAULT_SCHEMA_NAME;
+}
+
+// Asks the provider for a result matching the schema, repairing invalid
+// replies up to MAX_ATTEMPTS times in all. Throws if none of them match.
+export async function generateStructured<T extends ZodTypeAny>(
+  provider: LLMProvider,
+  request: StructuredRequest & { schema: T }
+): Promise<StructuredResult<z.infer<T>>>;
+export async function generateStructured(provider: LLMProvider, request: StructuredRequest): Promise<StructuredResult>;
+export async function generateStructured(provider: LLMProvider, request: StructuredRequest): Promise<StructuredResult> {
+  const zodSchema = isZodSchema(request.schema) ? request.schema : null;
+  const schema = zodSchema ? zodToJsonSchema(zodSchema) : request.schema as JsonSchema;
+  // Before the LLM is paid for; requests from the API are checked when parsed
+  const invalidPatterns = zodSchema ? [] : findInvalidPatterns(schema);
+  if (invalidPatterns.length > 0) {
+    throw new Error(`Structured output: ${invalidPatterns.join(', ')} is not a valid regular expression`);
+  }
+  const validate = (value: unknown) => (zodSchema ? validateZod(value, zodSchema) : { problems: validateJson(value, schema), data: value });
+
+  const system = renderPrompt('structured-system', { schema: JSON.stringify(schema, null, 2) });
+  const prompt = renderPrompt('structured-user', {
+    instructions: request.instructions,
+    text: request.text,
+    contentSource: request.contentSource,
+  });
+
+  let message = prompt;
+  let problems: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const reply = await provider.completeJSON({
+      system,
+      prompt: message,
+      schema,
+      schemaName: schemaNameFor(request, schema),
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+    });
+
+    const parsed = parseJsonReply(reply);
+    const checked = 'value' in parsed ? validate(parsed.value) : { problems: [parsed.problem] };
+    if (checked.problems.length === 0) {
+      return { data: checked.data, attempts: attempt };
+    }
+
+    problems = checked.problems.slice(0, MAX_REPORTED_PROBLEMS);
+    console.warn(`Structured output: ${provider.id} reply ${attempt} of ${MAX_ATTEMPTS} did not match the schema:`, problems);
+    message = renderPrompt('structured-repair', {
+      request: prompt,
+      problems: problems.map(problem => `- ${problem}`).join('\n'),
+      reply: reply.length > MAX_QUOTED_REPLY_CHARS ? `${reply.slice(0, MAX_QUOTED_REPLY_CHARS)}...` : reply,
+    });
+  }
+
+  throw new Error(`${provider.label} did not return JSON matching the schema after ${MAX_ATTEMPTS} attempts: ${problems.slice(0, 3).join('; ')}`);
+}
@@ -0,0 +1,152 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import { getModelCatalog, findModelInfo } from '@shared/models';
+import { chunkTexts } from '@shared/chunking';
+
+// Token counting and context budgeting shared by the provider adapters.
+//
+// OpenAI models are counted exactly with their own BPE tables. No other
+// provider publishes a tokenizer that runs offline, so for them we count with
+// cl100k_base and scale up by a safety margin; that errs on the side of
+// smaller chunks rather than a "maximum context length" error.
+
+const APPROXIMATE_MARGIN = 1.2;
+
+// Chat formats wrap every message in a few role/separator tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Used when a custom endpoint doesn't say how large its context is
+const DEFAULT_CUSTOM_CONTEXT_WINDOW = 32768;
+
+const encoders: Partial<Record<'o200k_base' | 'cl100k_base', Tiktoken>> = {};
+
+function getEncoder(name: 'o200k_base' | 'cl100k_base'): Tiktoken {
+  if (!encoders[name]) {
+    encoders[name] = new Tiktoken(name === 'o200k_base' ? o200k_base : cl100k_base);
+  }
+  return encoders[name]!;
+}
+
+export interface TokenCounter {
+  provider: string;
+  model: string;
+  contextWindow: number;
+  // False when counts come from a stand-in tokenizer plus safety margin
+  exact: boolean;
+  count(text: string): number;
+}
+
+function getContextWindow(provider: string, model: string): number {
+  if (provider === 'custom') {
+    const configured = Number(process.env.CUSTOM_LLM_CONTEXT_WINDOW);
+    return configured > 0 ? configured : DEFAULT_CUSTOM_CONTEXT_WINDOW;
+  }
+
+  const catalog = getModelCatalog(provider);
+  if (!catalog) return DEFAULT_CUSTOM_CONTEXT_WINDOW;
+
+  const info = findModelInfo(provider, model);
+  if (info) return info.contextWindow;
+
+  // Unknown model name: assume the smallest window the provider offers
+  return Math.min(...catalog.models.map(m => m.contextWindow));
+}
+
+export function getTokenCounter(provider: string, model: string): TokenCounter {
+  const exact = provider === 'openai';
+  // gpt-4o, gpt-4.1 and the o-series use o200k_base; older GPT-4/3.5 models cl100k_base
+  const encoder = getEncoder(exact && /^(gpt-4o|gpt-4\.1|o\d)/.test(model) ? 'o200k_base' : 'cl100k_base');
+
+  return {
+    provider,
+    model,
+    contextWindow: getContextWindow(provider, model),
+    exact,
+    count(text: string): number {
+      if (!text) return 0;
+      const tokens = encoder.encode(text).length;
+      return exact ? tokens : Math.ceil(tokens * APPROXIMATE_MARGIN);
+    }
+  };
+}
+
+// Tokens a list of chat messages takes up, including per-message framing
+export function countMessageTokens(counter: TokenCounter, messages: Array<{ content: string }>): number {
+  return messages.reduce((total, msg) => total + counter.count(msg.content) + MESSAGE_OVERHEAD_TOKENS, MESSAGE_OVERHEAD_TOKENS);
+}
+
+// Tokens left for document text once the rest of the request is accounted for.
+// `promptParts` is everything else that will be sent: system prompt,
+// instructions, style sample, content source and the wording around the text.
+export function remainingTokens(counter: TokenCounter, promptParts: string[], maxOutputTokens: number): number {
+  const used = countMessageTokens(counter, promptParts.map(content => ({ content })));
+  return counter.contextWindow - maxOutputTokens - used;
+}
+
+// Headroom for a system prompt and the fixed wording around the text, for
+// paths that decide whether to chunk before they build the request itself
+const PROMPT_WORDING_TOKENS = 1000;
+
+// Whether the text, together with the given instructions and sources, fits in
+// a single request
+export function fitsInSingleRequest(counter: TokenCounter, parts: string[], maxOutputTokens: number): boolean {
+  return remainingTokens(counter, parts, maxOutputTokens) >= PROMPT_WORDING_TOKENS;
+}
+
+// Like remainingTokens, but throws when there isn't a usable amount of room,
+// which happens when a style sample or content source alone nearly fills the
+// context window
+export function computeChunkBudget(
+  counter: TokenCounter,
+  promptParts: string[],
+  maxOutputTokens: number,
+  preferredChunkTokens: number
+): number {
+  const room = remainingTokens(counter, promptParts, maxOutputTokens);
+  const minimum = Math.min(preferredChunkTokens, 500);
+  if (room < minimum) {
+    throw new Error(
+      `The prompt, style sample and content source leave no room for document text in ${counter.model}'s ` +
+      `${counter.contextWindow}-token context window. Shorten them or lower max tokens.`
+    );
+  }
+  return Math.min(room, preferredChunkTokens);
+}
+
+// Splits text into pieces of at most maxTokens, breaking on blocks, then
+// lines, sentences and words (see @shared/chunking)
+export function splitToTokenBudget(text: string, maxTokens: number, counter: TokenCounter): string[] {
+  return chunkTexts(text, { maxSize: maxTokens, measure: (piece) => counter.count(piece) });
+}
+
+// Shortens a document to maxTokens by keeping its beginning and end
+export function truncateMiddleToBudget(text: string, maxTokens: number, counter: TokenCounter): string {
+  if (counter.count(text) <= maxTokens) return text;
+
+  const marker = '\n\n[... middle section truncated for length ...]\n\n';
+  const half = Math.floor((maxTokens - counter.count(marker)) / 2);
+  if (half <= 0) return '';
+
+  const pieces = splitToTokenBudget(text, half, counter);
+  return pieces[0] + marker + pieces[pieces.length - 1];
+}
+
+// Keeps the most recent messages that fit in maxTokens, in order
+export function truncateHistoryToBudget<T extends { content: string }>(
+  messages: T[],
+  maxTokens: number,
+  counter: TokenCounter
+): T[] {
+  const kept: T[] = [];
+  let total = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msgTokens = counter.count(messages[i].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (total + msgTokens > maxTokens) break;
+    total += msgTokens;
+    kept.unshift(messages[i]);
+  }
+
+  return kept;
+}
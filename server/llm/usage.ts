@@ -0,0 +1,214 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { findModelInfo } from '@shared/models';
+import type { LlmUsage } from '@shared/schema';
+import { storage } from '../storage';
+import { getTokenCounter } from './tokens';
+
+// Usage and cost accounting. The completion helpers in ./streaming.ts report
+// the token counts of every call here; the request and job a call belongs to
+// come from an async context set up per API request (usageMiddleware) and
+// narrowed per job (withUsageContext), so provider code doesn't have to pass
+// them along.
+//
+// There are no user accounts, so calls are accounted to the browser they
+// were made for: usageMiddleware gives each browser a long-lived client id
+// cookie, and jobs keep the id of the browser that submitted them.
+
+interface UsageContext {
+  requestId?: string;
+  operation?: string;
+  jobId?: string;
+  clientId?: string;
+  // Added up for withUsageTotals callers
+  totals?: UsageTotals;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+export interface UsageReport {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Set when the API didn't report usage and the counts were made locally
+  estimated?: boolean;
+}
+
+const CLIENT_COOKIE = 'llm_client_id';
+const CLIENT_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+function readClientCookie(req: Request): string | undefined {
+  const match = req.headers.cookie?.match(new RegExp(`(?:^|;\\s*)${CLIENT_COOKIE}=([\\w-]{1,64})(?:;|$)`));
+  return match?.[1];
+}
+
+// Gives every API request an id that its LLM calls are recorded under, sent
+// back as X-Request-Id so the calls can be looked up, and the browser's
+// client id
+export function usageMiddleware(req: Request, res: Response, next: NextFunction) {
+  const requestId = randomUUID();
+  let clientId = readClientCookie(req);
+  if (!clientId) {
+    clientId = randomUUID();
+    res.cookie(CLIENT_COOKIE, clientId, { httpOnly: true, sameSite: 'lax', maxAge: CLIENT_COOKIE_MAX_AGE_MS });
+  }
+  res.setHeader('X-Request-Id', requestId);
+  usageContext.run({ requestId, clientId, operation: req.baseUrl + req.path }, next);
+}
+
+// The client id of the browser the current request or job is for
+export function getUsageClientId(): string | undefined {
+  return usageContext.getStore()?.clientId;
+}
+
+// Runs fn with the given fields added to the current usage context
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+// Runs fn and adds up the calls it makes, for routes that report their
+// tokens and cost with the response
+export async function withUsageTotals<T>(fn: () => Promise<T>): Promise<{ result: T; usage: UsageTotals }> {
+  const totals = emptyTotals();
+  const result = await withUsageContext({ totals }, fn);
+  return { result, usage: totals };
+}
+
+// USD for a call, or null when the model has no known price (e.g. a custom
+// endpoint)
+export function estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number | null {
+  const info = findModelInfo(provider, model);
+  if (!info) return null;
+  return (inputTokens * info.inputCostPerMillion + outputTokens * info.outputCostPerMillion) / 1_000_000;
+}
+
+// Token counts for a call whose API response carried no usage
+export function estimateUsage(provider: string, model: string, prompt: string, completion: string): UsageReport {
+  const counter = getTokenCounter(provider, model);
+  return {
+    provider,
+    model,
+    inputTokens: counter.count(prompt),
+    outputTokens: counter.count(completion),
+    estimated: true,
+  };
+}
+
+// Records one call. Accounting must never fail the request it describes, so
+// storage errors are only logged.
+export function recordUsage(report: UsageReport): void {
+  const context = usageContext.getStore() ?? {};
+  const estimatedCost = estimateCost(report.provider, report.model, report.inputTokens, report.outputTokens);
+  if (context.totals) {
+    context.totals.calls++;
+    context.totals.inputTokens += report.inputTokens;
+    context.totals.outputTokens += report.outputTokens;
+    if (estimatedCost === null) context.totals.unpricedCalls++;
+    else context.totals.estimatedCost += estimatedCost;
+  }
+  storage.createLlmUsage({
+    jobId: context.jobId ?? null,
+    requestId: context.requestId ?? null,
+    clientId: context.clientId ?? null,
+    operation: context.operation ?? null,
+    provider: report.provider,
+    model: report.model,
+    inputTokens: report.inputTokens,
+    outputTokens: report.outputTokens,
+    tokensEstimated: Boolean(report.estimated),
+    estimatedCost,
+  }).catch(error => console.error('Failed to record LLM usage:', error));
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Sum over calls with a known price
+  estimatedCost: number;
+  // Calls whose model had no price, so estimatedCost leaves them out
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  since: string;
+  totals: UsageTotals;
+  byProvider: Array<UsageTotals & { provider: string }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  byDay: Array<UsageTotals & { day: string }>;
+  byJob: Array<UsageTotals & { jobId: string }>;
+  byClient: Array<UsageTotals & { clientId: string }>;
+  // The costliest requests, with what they were
+  byRequest: Array<UsageTotals & { requestId: string; operation: string }>;
+}
+
+export interface RequestUsage {
+  requestId: string;
+  totals: UsageTotals;
+  calls: LlmUsage[];
+}
+
+const TOP_REQUESTS = 20;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0, unpricedCalls: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: LlmUsage): void {
+  totals.calls++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  if (usage.estimatedCost === null) totals.unpricedCalls++;
+  else totals.estimatedCost += usage.estimatedCost;
+}
+
+function groupUsage<K extends string>(
+  records: LlmUsage[],
+  keyOf: (usage: LlmUsage) => Record<K, string> | null
+): Array<UsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageTotals & Record<K, string>>();
+  for (const usage of records) {
+    const key = keyOf(usage);
+    if (!key) continue;
+    const id = JSON.stringify(key);
+    if (!groups.has(id)) groups.set(id, { ...key, ...emptyTotals() });
+    addUsage(groups.get(id)!, usage);
+  }
+  return Array.from(groups.values());
+}
+
+// Spend and token totals for the last `days` days, overall and per
+// provider, model, day (UTC), rewrite job, client and request; only the
+// given client's calls when clientId is set
+export async function summarizeUsage(days: number, clientId?: string): Promise<UsageSummary> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const records = await storage.listLlmUsage({ since, clientId });
+
+  const totals = emptyTotals();
+  records.forEach(usage => addUsage(totals, usage));
+
+  const byCost = <T extends UsageTotals>(rows: T[]) => rows.sort((a, b) => b.estimatedCost - a.estimatedCost);
+  return {
+    since: since.toISOString(),
+    totals,
+    byProvider: byCost(groupUsage(records, usage => ({ provider: usage.provider }))),
+    byModel: byCost(groupUsage(records, usage => ({ provider: usage.provider, model: usage.model }))),
+    byDay: groupUsage(records, usage => ({ day: (usage.createdAt ?? new Date()).toISOString().slice(0, 10) }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    byJob: byCost(groupUsage(records, usage => (usage.jobId ? { jobId: usage.jobId } : null))),
+    byClient: byCost(groupUsage(records, usage => (usage.clientId ? { clientId: usage.clientId } : null))),
+    byRequest: byCost(groupUsage(records, usage => (usage.requestId
+      ? { requestId: usage.requestId, operation: usage.operation ?? '' }
+      : null))).slice(0, TOP_REQUESTS),
+  };
+}
+
+// Every call made while serving one request, with their totals
+export async function summarizeRequestUsage(requestId: string): Promise<RequestUsage> {
+  const calls = await storage.listLlmUsage({ requestId });
+  const totals = emptyTotals();
+  calls.forEach(usage => addUsage(totals, usage));
+  return { requestId, totals, calls };
+}
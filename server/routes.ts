@@ -9,13 +9,33 @@ import {
   detectAiSchema, 
   searchOnlineSchema, 
   sendEmailSchema,
-  chatRequestSchema 
+  chatRequestSchema,
+  refineGenerationSettings,
+  rollingContextSchema,
+  compareRequestSchema,
+  rewriteRequestSchema,
+  jobRequestSchema,
+  createDocumentSchema,
+  updateDocumentSchema,
+  type TextChunk
 } from "@shared/schema";
 import { stripMarkdown, preserveMathAndStripMarkdown } from "./utils/markdown-stripper";
-import { processTextWithOpenAI, detectAIWithOpenAI, transcribeAudio, solveHomeworkWithOpenAI, processChatWithOpenAI } from "./llm/openai";
-import { processTextWithAnthropic, detectAIWithAnthropic, solveHomeworkWithAnthropic, processChatWithAnthropic } from "./llm/anthropic";
-import { processTextWithPerplexity, detectAIWithPerplexity, solveHomeworkWithPerplexity, processChatWithPerplexity } from "./llm/perplexity";
-import { processTextWithDeepSeek, detectAIWithDeepSeek, solveHomeworkWithDeepSeek, processChatWithDeepSeek } from "./llm/deepseek";
+import { openEventStream } from "./utils/sse";
+import { jobListQuerySchema, listJobPage } from "./utils/job-list";
+import { getProviderWithCapability, listProviders } from "./llm/registry";
+import { getFallbackChain, runWithFallback, settingsForProvider } from "./llm/fallback";
+import { usageMiddleware, withUsageTotals, summarizeUsage, summarizeRequestUsage, getUsageClientId } from "./llm/usage";
+import { withCacheScope } from "./llm/cache";
+import { cancellationMiddleware, isCancelled } from "./llm/cancellation";
+import { emptyRollingContext, renderChunkInstructions, advanceRollingContext } from "./llm/rolling-context";
+import { generateStructured } from "./llm/structured";
+import { registerJobHandler, submitJob, requeueJob, cancelJob, subscribeToJob, resumeInterruptedJobs, isFinished } from "./llm/jobs";
+import { promptTrackingMiddleware, getPromptVersions, loadPromptTemplates, listPromptTemplates, savePromptTemplate } from "./llm/prompts";
+import { toChunkError, processChunks, joinChunkResults } from "./llm/scheduler";
+import type { ChunkError, ChunkProgressHandler, TokenHandler } from "./llm/provider";
+import { getModelCatalog } from "@shared/models";
+import { countWords } from "@shared/chunking";
+import { diffText, countChangedWords } from "@shared/textDiff";
 import { detectAIWithGPTZero } from "./services/gptzero";
 import { searchOnline, fetchWebContent } from "./services/google";
 import { sendDocumentEmail } from "./services/sendgrid";
@@ -71,36 +91,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
+  // Tag LLM calls with the API request (and job) they were made for
+  app.use('/api', usageMiddleware);
+  
+  // Note which prompt template versions each request renders
+  app.use('/api', promptTrackingMiddleware);
+  
+  // Stop a request's LLM calls when its client disconnects or cancels
+  app.use('/api', cancellationMiddleware);
+  
+  // Merge prompt template versions saved to the database with prompts/
+  await loadPromptTemplates().catch(error => console.error('Failed to load stored prompt templates:', error));
+  
   // Health check endpoint
   app.get('/api/health', (_req, res) => {
     res.json({ status: 'ok' });
   });
 
+  // Token usage and estimated spend per provider, model, day, rewrite job,
+  // client and request; ?mine=true for this browser's calls only
+  app.get('/api/usage/summary', async (req: Request, res: Response) => {
+    try {
+      const { days, mine } = z.object({
+        days: z.coerce.number().int().min(1).max(365).default(30),
+        mine: z.enum(['true', 'false']).default('false')
+      }).parse(req.query);
+      res.json(await summarizeUsage(days, mine === 'true' ? getUsageClientId() : undefined));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error summarizing usage:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to summarize usage' });
+      }
+    }
+  });
+
+  // The LLM calls made while serving one request; every API response carries
+  // its request id in X-Request-Id
+  app.get('/api/usage/requests/:requestId', async (req: Request, res: Response) => {
+    try {
+      res.json(await summarizeRequestUsage(req.params.requestId));
+    } catch (error: unknown) {
+      console.error('Error loading request usage:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load request usage' });
+    }
+  });
+
+  // Prompt templates with their versions and which one is in use
+  app.get('/api/prompts', (_req, res) => {
+    try {
+      res.json(listPromptTemplates());
+    } catch (error: unknown) {
+      console.error('Error listing prompt templates:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list prompt templates' });
+    }
+  });
+
+  // Save a new version of a prompt template
+  app.post('/api/prompts', async (req: Request, res: Response) => {
+    try {
+      const { name, body } = z.object({
+        name: z.string().regex(/^[\w.-]+$/, 'Template names may only contain letters, digits, ".", "-" and "_"'),
+        body: z.string().min(1, 'Template body is required')
+      }).parse(req.body);
+      res.json(await savePromptTemplate(name, body));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error saving prompt template:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to save prompt template' });
+      }
+    }
+  });
+
+  // List registered LLM providers and what each one supports
+  app.get('/api/llm-providers', (_req, res) => {
+    res.json(listProviders().map(({ id, label, capabilities }) => ({
+      id,
+      label,
+      capabilities,
+      // null means any model name is accepted (e.g. a custom endpoint)
+      models: getModelCatalog(id)?.models ?? null
+    })));
+  });
+
   // SEPARATE HOMEWORK ENDPOINT - BYPASSES ALL REWRITE LOGIC
   app.post('/api/solve-homework', async (req: Request, res: Response) => {
     try {
       const { assignment, llmProvider = 'anthropic' } = req.body;
       
-      let solution: string;
+      const solution = await getProviderWithCapability(llmProvider, 'homework').solveHomework(assignment);
       
-      switch (llmProvider) {
-        case 'openai':
-          solution = await solveHomeworkWithOpenAI(assignment);
-          break;
-        case 'anthropic':
-          solution = await solveHomeworkWithAnthropic(assignment);
-          break;
-        case 'perplexity':
-          solution = await solveHomeworkWithPerplexity(assignment);
-          break;
-        case 'deepseek':
-          solution = await solveHomeworkWithDeepSeek(assignment);
-          break;
-        default:
-          throw new Error(`Unsupported LLM provider: ${llmProvider}`);
-      }
-      
-      res.json({ result: solution });
+      res.json({ result: solution, promptVersions: getPromptVersions() });
     } catch (error: any) {
       console.error('Error solving homework:', error);
       res.status(500).json({ 
@@ -110,63 +194,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  type ProcessTextRequest = z.infer<typeof processTextSchema>;
+
+  interface ProcessTextHandlers {
+    onChunkProgress?: ChunkProgressHandler;
+    // Streams the processed text; once a token is sent there is no fallback,
+    // since the next provider would start the answer over
+    onToken?: TokenHandler;
+  }
+
+  // Runs a process-text request, with fallback: JSON matching outputSchema
+  // when there is one, otherwise the processed text. Shared by both
+  // endpoints and process jobs.
+  async function processText(data: ProcessTextRequest, { onChunkProgress, onToken }: ProcessTextHandlers = {}) {
+    const chain = getFallbackChain(data.llmProvider, 'process', data.fallbackProviders);
+
+    // Structured output: JSON matching the requested schema, not free text
+    const outputSchema = data.outputSchema;
+    if (outputSchema) {
+      const { result: { result, provider }, cache } = await withCacheScope(data.noCache, () =>
+        runWithFallback(chain, (provider) => generateStructured(provider, {
+          instructions: data.instructions,
+          text: data.inputText,
+          contentSource: data.useContentSource ? data.contentSource : undefined,
+          schema: outputSchema,
+          schemaName: data.outputSchemaName,
+          ...settingsForProvider(provider.id, data.llmProvider, data)
+        }))
+      );
+      return {
+        result: JSON.stringify(result.data, null, 2),
+        data: result.data,
+        attempts: result.attempts,
+        chunkErrors: [] as ChunkError[],
+        provider,
+        cache
+      };
+    }
+
+    let emitted = false;
+    const { result: { result, provider }, cache } = await withCacheScope(data.noCache, () =>
+      runWithFallback(chain, async (provider) => {
+        const chunkErrors: ChunkError[] = [];
+        const text = await provider.process({
+          text: data.inputText,
+          instructions: data.instructions,
+          contentSource: data.contentSource,
+          styleSource: data.styleSource,
+          useContentSource: data.useContentSource,
+          useStyleSource: data.useStyleSource,
+          examMode: data.examMode,
+          ...settingsForProvider(provider.id, data.llmProvider, data),
+          onToken: onToken && ((token) => {
+            emitted = true;
+            onToken(token);
+          }),
+          onChunkError: (chunkError) => chunkErrors.push(chunkError),
+          onChunkProgress
+        });
+        return { text, chunkErrors };
+      }, () => !emitted)
+    );
+    return { result: result.text, chunkErrors: result.chunkErrors, provider, cache };
+  }
+
   // Process text endpoint
   app.post('/api/process-text', async (req: Request, res: Response) => {
     try {
-      const data = processTextSchema.parse(req.body);
-      
-      // Select LLM provider based on user choice
-      let processedText: string;
-      
-      switch (data.llmProvider) {
-        case 'openai':
-          processedText = await processTextWithOpenAI({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'anthropic':
-          processedText = await processTextWithAnthropic({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'perplexity':
-          processedText = await processTextWithPerplexity({
-            text: data.inputText,
-            instructions: data.instructions,
-            contentSource: data.contentSource,
-            styleSource: data.styleSource,
-            useContentSource: data.useContentSource,
-            useStyleSource: data.useStyleSource,
-            examMode: data.examMode
-          });
-          break;
-        case 'deepseek':
-          processedText = await processTextWithDeepSeek(
-            data.inputText,
-            data.instructions,
-            data.useContentSource ? data.contentSource : undefined,
-            data.useStyleSource ? data.styleSource : undefined,
-            data.examMode
-          );
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
+      const data = processTextSchema.superRefine(refineGenerationSettings('llmProvider')).parse(req.body);
+      const { result, data: structured, attempts, chunkErrors, provider, cache } = await processText(data);
+
+      if (data.outputSchema) {
+        res.json({ result, data: structured, attempts, provider, cache, promptVersions: getPromptVersions() });
+        return;
       }
-      
+
       // Return LLM output exactly as received - NO FILTERING OR PROCESSING
-      res.json({ result: processedText });
+      res.json({ result, chunkErrors, provider, cache, promptVersions: getPromptVersions() });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
@@ -177,72 +281,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming variant of process-text: relays the provider's tokens over SSE
+  app.post('/api/process-text/stream', async (req: Request, res: Response) => {
+    let data;
+    try {
+      data = processTextSchema.superRefine(refineGenerationSettings('llmProvider')).parse(req.body);
+      if (data.outputSchema) {
+        // A partial JSON document is no use to anyone, so there's nothing to stream
+        res.status(400).json({ error: 'Structured output (outputSchema) is not streamed; use /api/process-text' });
+        return;
+      }
+      // Checked now so a bad provider is a 400 rather than an error event
+      getFallbackChain(data.llmProvider, 'process', data.fallbackProviders);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process text' });
+      }
+      return;
+    }
+
+    const stream = openEventStream(res);
+    try {
+      const { result, chunkErrors, provider, cache } = await processText(data, {
+        onToken: stream.token,
+        onChunkProgress: stream.progress
+      });
+      stream.done({ result, chunkErrors, provider, cache, promptVersions: getPromptVersions() });
+    } catch (error: unknown) {
+      console.error('Error streaming processed text:', error);
+      stream.error(error instanceof Error ? error.message : 'Failed to process text');
+    }
+  });
+
+  // Compare mode: the same input and instructions on two to four providers or
+  // models at once. There is no fallback - each column shows how its own
+  // target did, including failures.
+  app.post('/api/compare', async (req: Request, res: Response) => {
+    try {
+      const data = compareRequestSchema.parse(req.body);
+
+      const { result: results, cache } = await withCacheScope(data.noCache, () =>
+        Promise.all(data.targets.map(async (target) => {
+          const model = target.model ?? getModelCatalog(target.provider)?.models[0].id ?? null;
+          const started = Date.now();
+          try {
+            const chunkErrors: ChunkError[] = [];
+            const { result, usage } = await withUsageTotals(() =>
+              getProviderWithCapability(target.provider, 'process').process({
+                text: data.inputText,
+                instructions: data.instructions,
+                contentSource: data.contentSource,
+                styleSource: data.styleSource,
+                useContentSource: data.useContentSource,
+                useStyleSource: data.useStyleSource,
+                examMode: data.examMode,
+                model: target.model,
+                temperature: data.temperature,
+                maxTokens: data.maxTokens,
+                onChunkError: (chunkError) => chunkErrors.push(chunkError)
+              })
+            );
+            return {
+              provider: target.provider,
+              model,
+              result,
+              wordCount: result.trim() ? result.trim().split(/\s+/).length : 0,
+              latencyMs: Date.now() - started,
+              usage,
+              chunkErrors
+            };
+          } catch (error) {
+            console.error(`Compare: ${target.provider} failed:`, error);
+            return {
+              provider: target.provider,
+              model,
+              error: error instanceof Error ? error.message : 'Failed to process text',
+              latencyMs: Date.now() - started
+            };
+          }
+        }))
+      );
+
+      res.json({ results, cache, promptVersions: getPromptVersions() });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error comparing providers:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to compare providers' });
+      }
+    }
+  });
+
   // Process document chunk endpoint
   app.post('/api/process-chunk', async (req: Request, res: Response) => {
+    let data;
     try {
-      const schema = processTextSchema.extend({
+      const schema = processTextSchema.omit({ outputSchema: true, outputSchemaName: true }).extend({
         chunkIndex: z.number(),
-        totalChunks: z.number()
-      });
-      
-      const data = schema.parse(req.body);
+        totalChunks: z.number(),
+        // Carry a running summary, the previous chunk's ending and defined
+        // terms from chunk to chunk; send back the context of the last response
+        rollingContext: z.boolean().default(false),
+        context: rollingContextSchema.optional()
+      }).superRefine(refineGenerationSettings('llmProvider'));
       
-      // Select LLM provider based on user choice
-      let processedText: string;
+      data = schema.parse(req.body);
+      const requested = data;
+      const chain = getFallbackChain(data.llmProvider, 'process', data.fallbackProviders);
+      const context = data.rollingContext ? data.context ?? emptyRollingContext() : undefined;
       
       // Add context about this being part of a larger document
-      const chunkContext = `[Processing chunk ${data.chunkIndex + 1} of ${data.totalChunks}]\n`;
-      const enhancedInstructions = chunkContext + data.instructions + 
-        "\nNote: This is part of a larger document, maintain consistency with previous chunks.";
+      const enhancedInstructions = renderChunkInstructions(data.instructions, data.chunkIndex, data.totalChunks, context);
       
-      switch (data.llmProvider) {
-        case 'openai':
-          processedText = await processTextWithOpenAI({
-            text: data.inputText,
+      const { result: { result: processed, provider }, cache } = await withCacheScope(data.noCache, () =>
+        runWithFallback(chain, async (provider) => {
+          const settings = settingsForProvider(provider.id, requested.llmProvider, requested);
+          const text = await provider.process({
+            text: requested.inputText,
             instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
+            contentSource: requested.contentSource,
+            useContentSource: requested.useContentSource,
+            styleSource: requested.styleSource,
+            useStyleSource: requested.useStyleSource,
+            examMode: requested.examMode,
+            ...settings
           });
-          break;
-        case 'anthropic':
-          processedText = await processTextWithAnthropic({
-            text: data.inputText,
-            instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
-          });
-          break;
-        case 'perplexity':
-          processedText = await processTextWithPerplexity({
-            text: data.inputText,
-            instructions: enhancedInstructions,
-            contentSource: data.contentSource,
-            useContentSource: data.useContentSource
-          });
-          break;
-        case 'deepseek':
-          processedText = await processTextWithDeepSeek(
-            data.inputText,
-            enhancedInstructions,
-            data.useContentSource ? data.contentSource : undefined
-          );
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
-      }
+          const nextContext = context && await advanceRollingContext(provider, settings, context, text);
+          return { text, nextContext };
+        })
+      );
       
       // Return LLM output exactly as received - NO FILTERING OR PROCESSING
       res.json({ 
-        result: processedText,
+        result: processed.text,
         chunkIndex: data.chunkIndex,
-        totalChunks: data.totalChunks
+        totalChunks: data.totalChunks,
+        // Context for the next chunk, when rolling context is on
+        context: processed.nextContext,
+        provider,
+        cache,
+        promptVersions: getPromptVersions()
       });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
       } else {
         console.error('Error processing chunk:', error);
-        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process text chunk' });
+        // Tell the client which chunk failed and whether trying again may help
+        const chunkError = data ? toChunkError(error, data.chunkIndex, data.totalChunks) : undefined;
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to process text chunk',
+          chunkError
+        });
       }
     }
   });
@@ -260,20 +453,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log("GPTZero failed, falling back to model-based detection:", gptzeroError instanceof Error ? gptzeroError.message : 'GPTZero error');
         
         // Fall back to selected LLM provider for detection
-        let result;
-        switch (llmProvider) {
-          case 'anthropic':
-            result = await detectAIWithAnthropic(text);
-            break;
-          case 'perplexity':
-            result = await detectAIWithPerplexity(text);
-            break;
-          case 'deepseek':
-            result = await detectAIWithDeepSeek(text);
-            break;
-          default:
-            result = await detectAIWithOpenAI(text);
-        }
+        const result = await getProviderWithCapability(llmProvider || 'openai', 'detectAI').detectAI(text);
         res.json(result);
       }
     } catch (error: unknown) {
@@ -340,27 +520,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Chat endpoint with conversation memory
   app.post('/api/chat', async (req: Request, res: Response) => {
     try {
-      const { message, conversationHistory, llmProvider, contextDocument } = chatRequestSchema.parse(req.body);
+      const data = chatRequestSchema
+        .superRefine(refineGenerationSettings('llmProvider'))
+        .parse(req.body);
       
-      let response;
-      switch (llmProvider) {
-        case 'openai':
-          response = await processChatWithOpenAI(message, conversationHistory, contextDocument);
-          break;
-        case 'anthropic':
-          response = await processChatWithAnthropic(message, conversationHistory, contextDocument);
-          break;
-        case 'perplexity':
-          response = await processChatWithPerplexity(message, conversationHistory, contextDocument);
-          break;
-        case 'deepseek':
-          response = await processChatWithDeepSeek(message, conversationHistory, contextDocument);
-          break;
-        default:
-          throw new Error('Invalid LLM provider');
-      }
+      const chain = getFallbackChain(data.llmProvider, 'chat', data.fallbackProviders);
+      const { result: { result: response, provider }, cache } = await withCacheScope(data.noCache, () =>
+        runWithFallback(chain, (provider) =>
+          provider.chat(data.message, data.conversationHistory, data.contextDocument,
+            settingsForProvider(provider.id, data.llmProvider, data))
+        )
+      );
       
-      res.json({ response });
+      res.json({ response, provider, cache, promptVersions: getPromptVersions() });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: fromZodError(error).message });
@@ -371,6 +543,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming variant of chat: relays the provider's tokens over SSE
+  app.post('/api/chat/stream', async (req: Request, res: Response) => {
+    let data;
+    let chain;
+    try {
+      data = chatRequestSchema.superRefine(refineGenerationSettings('llmProvider')).parse(req.body);
+      chain = getFallbackChain(data.llmProvider, 'chat', data.fallbackProviders);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process chat' });
+      }
+      return;
+    }
+
+    const stream = openEventStream(res);
+    const requested = data;
+    let emitted = false;
+    try {
+      const { result: { result: response, provider }, cache } = await withCacheScope(requested.noCache, () =>
+        runWithFallback(chain, (provider) =>
+          provider.chat(requested.message, requested.conversationHistory, requested.contextDocument, {
+            ...settingsForProvider(provider.id, requested.llmProvider, requested),
+            onToken: (token) => {
+              emitted = true;
+              stream.token(token);
+            }
+          }),
+          () => !emitted
+        )
+      );
+      stream.done({ result: response, provider, cache, promptVersions: getPromptVersions() });
+    } catch (error: unknown) {
+      console.error('Error streaming chat:', error);
+      stream.error(error instanceof Error ? error.message : 'Failed to process chat');
+    }
+  });
+
   // Search online
   app.post('/api/search-online', async (req: Request, res: Response) => {
     try {
@@ -781,6 +992,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Document library: uploads and saved outputs, listed without their text
+  app.get('/api/documents', async (_req: Request, res: Response) => {
+    try {
+      const documents = await storage.listDocuments();
+      res.json(documents.map(({ content, ...document }) => ({
+        ...document,
+        preview: content.slice(0, 200)
+      })));
+    } catch (error: unknown) {
+      console.error('Error listing documents:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list documents' });
+    }
+  });
+
+  app.post('/api/documents', async (req: Request, res: Response) => {
+    try {
+      const data = createDocumentSchema.parse(req.body);
+      const document = await storage.createDocument({ ...data, wordCount: countWords(data.content) });
+      res.status(201).json(document);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error saving document:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to save document' });
+      }
+    }
+  });
+
+  app.get('/api/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.json(document);
+    } catch (error: unknown) {
+      console.error('Error getting document:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get document' });
+    }
+  });
+
+  // Renames a document or replaces its text
+  app.patch('/api/documents/:id', async (req: Request, res: Response) => {
+    try {
+      const data = updateDocumentSchema.parse(req.body);
+      const document = await storage.updateDocument(req.params.id, {
+        ...data,
+        ...(data.content !== undefined && { wordCount: countWords(data.content) })
+      });
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.json(document);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error updating document:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update document' });
+      }
+    }
+  });
+
+  app.delete('/api/documents/:id', async (req: Request, res: Response) => {
+    try {
+      if (!await storage.deleteDocument(req.params.id)) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      res.status(204).end();
+    } catch (error: unknown) {
+      console.error('Error deleting document:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete document' });
+    }
+  });
+
+  const searchQuery = z.object({
+    q: z.string().trim().min(1, "Search query is required"),
+    limit: z.coerce.number().int().min(1).max(50).default(20)
+  });
+
+  // Full-text search over library documents and rewrite jobs, with snippets
+  // split into highlighted and plain parts
+  app.get('/api/search', async (req: Request, res: Response) => {
+    try {
+      const { q, limit } = searchQuery.parse(req.query);
+      res.json({ query: q, results: await storage.search(q, limit) });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error searching:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Search failed' });
+      }
+    }
+  });
+
   // Legacy routes - disabled for GPT Bypass mode
   app.post('/api/save-instructions', async (req: Request, res: Response) => {
     res.status(501).json({ error: 'Instructions functionality not available in GPT Bypass mode' });
@@ -793,13 +1101,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update API keys
   app.post('/api/update-api-keys', async (req: Request, res: Response) => {
     try {
-      const { openaiKey, anthropicKey, perplexityKey } = req.body;
+      const { openaiKey, anthropicKey, perplexityKey, customBaseUrl, customModel, customApiKey, fallbackProviders } = req.body;
       
       // Update environment variables
       if (openaiKey) process.env.OPENAI_API_KEY = openaiKey;
       if (anthropicKey) process.env.ANTHROPIC_API_KEY = anthropicKey;
       if (perplexityKey) process.env.PERPLEXITY_API_KEY = perplexityKey;
       
+      // OpenAI-compatible custom endpoint (self-hosted models)
+      if (customBaseUrl) process.env.CUSTOM_LLM_BASE_URL = customBaseUrl;
+      if (customModel) process.env.CUSTOM_LLM_MODEL = customModel;
+      if (customApiKey) process.env.CUSTOM_LLM_API_KEY = customApiKey;
+      
+      // Ordered fallback chain, e.g. "anthropic,openai,deepseek"
+      if (typeof fallbackProviders === 'string') process.env.LLM_FALLBACK_PROVIDERS = fallbackProviders;
+      
       res.status(200).json({ success: true, message: 'API keys updated successfully' });
     } catch (error: unknown) {
       console.error('Error updating API keys:', error);
@@ -830,7 +1146,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GPT Bypass Routes
   
   // Import GPT Bypass services
-  const { aiProviderService } = await import('./services/aiProviders');
   const { FileProcessor } = await import('./services/fileProcessor');
   const { TextChunker } = await import('./services/textChunker');
   const { gptZeroService } = await import('./services/gptZeroBypass');
@@ -838,18 +1153,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const fileProcessor = new FileProcessor();
   const textChunker = new TextChunker();
 
-  // Process GPT Bypass rewrite request
-  app.post('/api/gpt-bypass/rewrite', upload.single('file'), async (req: Request, res: Response) => {
+  // Get style sample (default to Raven Paradox if none provided)
+  const defaultStyleSample = `There are two broad types of relationships: formal and functional. Formal relationships hold between linguistic entities. Functional relationships hold between properties. When I say "Snow is white" is true if and only if snow is white, the relationship between the sentence "Snow is white" and the sentence "snow is white" is formal: both are sentences, and the relationship between them can be captured in terms of their syntax and semantics. When I say that being white is a color property, the relationship between being white and being a color is functional: both are properties (of objects), and the relationship between them can be captured in terms of the functional roles that properties play.`;
+
+  // Rewrite jobs: the GPT Bypass rewrite of a job's input, or for a
+  // re-rewrite the previous output saved in options.sourceText. Each chunk's
+  // result is saved on the job as soon as it's known, so a failed chunk, a
+  // cancel or a restart loses at most the chunks in flight. A job that
+  // already has chunks is resumed: only the chunks not completed are
+  // rewritten, and the output is rebuilt from all of them.
+  registerJobHandler('rewrite', async ({ job, update }) => {
+    const data = rewriteRequestSchema.parse(job.options ?? {});
+    const sourceText = typeof job.options?.sourceText === 'string' ? job.options.sourceText : job.inputText;
+    let chain = getFallbackChain(data.provider, 'rewrite', data.fallbackProviders);
+    const styleSample = data.styleText?.trim() || defaultStyleSample;
+
+    const chunks: TextChunk[] = job.chunks?.length
+      ? job.chunks.map(chunk => chunk.status === 'completed' ? chunk : { ...chunk, status: 'pending', error: undefined })
+      : textChunker.chunkText(sourceText).map(chunk => ({ ...chunk, status: 'pending' }));
+    const todo = chunks.flatMap((chunk, index) => chunk.status === 'completed' ? [] : [index]);
+    let completed = chunks.length - todo.length;
+    if (completed > 0) console.log(`Rewrite job ${job.id}: resuming with ${todo.length} of ${chunks.length} chunks to do`);
+    await update({ chunks: [...chunks], totalChunks: chunks.length, completedChunks: completed });
+
+    // If a checkpoint can't be saved the job fails once the run ends, rather
+    // than finishing without the record
+    let saveError: unknown = null;
+    const saveFailed = (error: unknown) => {
+      console.error(`Rewrite job ${job.id}: failed to save a chunk:`, error);
+      if (!saveError) saveError = error;
+    };
+    // The count is worked out from the chunks and saved with them, so a
+    // resume never trusts a count the saved chunks don't bear out. Never
+    // rejects: a failed save goes to saveFailed.
+    const checkpoint = (index: number, changes: Partial<TextChunk>) => {
+      chunks[index] = { ...chunks[index], ...changes };
+      completed = chunks.filter(chunk => chunk.status === 'completed').length;
+      return update({ chunks: [...chunks], completedChunks: completed }).catch(saveFailed);
+    };
+
+    // Rewrite the chunks a few at a time, keeping their order. Once a
+    // provider has failed, chunks started later go to the one that answered
+    // instead of waiting on the outage again. A chunk that still fails is
+    // marked failed and the others carry on.
+    await withCacheScope(data.noCache, async () => {
+      try {
+        await processChunks(data.provider, todo.map(index => chunks[index].content), async (chunk, position) => {
+          const { result, provider } = await runWithFallback(chain, (provider) => provider.rewrite({
+            inputText: chunk,
+            styleText: styleSample,
+            ...settingsForProvider(provider.id, data.provider, data)
+          }));
+          const answered = chain.indexOf(provider);
+          if (answered > 0) chain = chain.slice(answered);
+          await checkpoint(todo[position], { status: 'completed', output: result, provider });
+          return result;
+        }, {
+          onChunkError: (chunkError) => void checkpoint(todo[chunkError.chunkIndex], { status: 'failed', error: chunkError.message })
+        });
+      } catch (error) {
+        // Every chunk of this run failed or it was cancelled before any was
+        // done; the job still keeps the chunks completed on earlier runs
+        if (!isCancelled() && completed === 0) throw error;
+      }
+    });
+    if (saveError) throw saveError;
+
+    if (isCancelled()) {
+      console.log(`Rewrite job ${job.id} cancelled after ${completed} of ${chunks.length} chunks`);
+    }
+
+    // Chunks overlap, so the repeated openings of their rewrites are removed
+    const outputText = textChunker.stitchProcessedChunks(chunks, chunks.map(chunk => chunk.status === 'completed' ? chunk.output : undefined));
+    const providers = Array.from(new Set(chunks.flatMap(chunk => chunk.provider ? [chunk.provider] : [])));
+
+    // Each pass is kept as a revision, so the next re-rewrite doesn't lose it
+    if (outputText) {
+      await storage.saveJobRevision({
+        jobId: job.id,
+        revision: typeof job.options?.revision === 'number' ? job.options.revision : 1,
+        inputText: sourceText,
+        outputText,
+        styleText: data.styleText || null,
+        selectedPresets: data.selectedPresets ?? null,
+        customInstructions: data.customInstructions || null,
+        provider: data.provider,
+        providers,
+        promptVersions: getPromptVersions()
+      });
+    }
+
+    const failed = chunks.flatMap((chunk, index) => chunk.status === 'failed' ? [index + 1] : []);
+    const firstError = chunks.find(chunk => chunk.status === 'failed')?.error;
+    return {
+      outputText,
+      providers,
+      error: failed.length > 0
+        ? `Section${failed.length > 1 ? 's' : ''} ${failed.join(', ')} could not be rewritten: ${firstError}`
+        : null
+    };
+  });
+
+  // Process jobs: a process-text request run in the background
+  registerJobHandler('process', async ({ job, reportProgress }) => {
+    const data = processTextSchema.parse({ ...job.options, inputText: job.inputText });
+    // Progress is saved without holding up the chunks; a save that fails
+    // fails the job once the text is processed
+    let progressError: unknown = null;
+    // Finished chunks by index, so a cancelled job keeps what it has so far
+    const outputs = new Map<number, string | null>();
+    let totalChunks = 0;
+    let processed: Awaited<ReturnType<typeof processText>> | null = null;
     try {
-      const schema = z.object({
-        inputText: z.string().optional(),
-        styleText: z.string().optional(),
-        provider: z.enum(['anthropic', 'openai', 'deepseek', 'perplexity']).default('anthropic'),
-        reRewrite: z.boolean().default(false),
-        jobId: z.string().optional()
+      processed = await processText(data, {
+        onChunkProgress: (progress) => {
+          outputs.set(progress.chunkIndex, progress.result);
+          totalChunks = progress.totalChunks;
+          reportProgress(progress.completed, progress.totalChunks).catch(error => {
+            console.error(`Process job ${job.id}: failed to save progress:`, error);
+            if (!progressError) progressError = error;
+          });
+        }
       });
+    } catch (error) {
+      if (!isCancelled() || outputs.size === 0) throw error;
+    }
+    if (progressError) throw progressError;
+
+    // Cancelled part way: the finished chunks in order, with a marker for
+    // each section that wasn't done
+    if (isCancelled() && totalChunks > 0) {
+      const results = Array.from({ length: totalChunks }, (_, index) => outputs.get(index) ?? null);
+      const missing = results.flatMap((output, index) => output === null ? [index] : []);
+      console.log(`Process job ${job.id} cancelled after ${totalChunks - missing.length} of ${totalChunks} chunks`);
+      return {
+        outputText: joinChunkResults({ results, failed: missing }),
+        providers: processed ? [processed.provider] : null,
+        error: null
+      };
+    }
+
+    const { result, chunkErrors, provider } = processed!;
+    const failed = chunkErrors.map(chunkError => chunkError.chunkIndex + 1).sort((a, b) => a - b);
+    return {
+      outputText: result,
+      providers: [provider],
+      error: failed.length > 0
+        ? `Section${failed.length > 1 ? 's' : ''} ${failed.join(', ')} could not be processed: ${chunkErrors[0].message}`
+        : null
+    };
+  });
 
-      const data = schema.parse(req.body);
+  // Queues a GPT Bypass rewrite and returns its job id straight away; the
+  // client follows the job at /api/gpt-bypass/job/:jobId or /api/jobs/:jobId
+  app.post('/api/gpt-bypass/rewrite', upload.single('file'), async (req: Request, res: Response) => {
+    try {
+      const data = rewriteRequestSchema.superRefine(refineGenerationSettings('provider')).parse(req.body);
+      // Checked now so a bad provider is a 400 rather than a failed job
+      getFallbackChain(data.provider, 'rewrite', data.fallbackProviders);
       let finalInputText = data.inputText || '';
 
       // Process uploaded file if provided
@@ -858,69 +1319,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         finalInputText = extractedText || finalInputText;
       }
 
-      if (!finalInputText.trim()) {
-        return res.status(400).json({ error: 'No text provided for processing' });
-      }
-
-      // Create or update rewrite job
+      const { inputText: _inputText, jobId: _jobId, reRewrite: _reRewrite, ...options } = data;
       let job;
-      let textToProcess = finalInputText;
-      
       if (data.reRewrite && data.jobId) {
         const existingJob = await storage.getRewriteJob(data.jobId);
         if (!existingJob) {
           return res.status(404).json({ error: 'Job not found for re-rewrite' });
         }
-        job = existingJob;
+        if (!isFinished(existingJob)) {
+          return res.status(409).json({ error: 'The job is still running' });
+        }
         // For recursive rewrite, use the OUTPUT from previous job as input
-        textToProcess = existingJob.outputText || existingJob.inputText;
-        console.log('🔥 RECURSIVE REWRITE - Using previous output as input, length:', textToProcess.length);
+        const sourceText = existingJob.outputText || existingJob.inputText;
+        console.log('🔥 RECURSIVE REWRITE - Using previous output as input, length:', sourceText.length);
+        // The next pass gets its own revision; jobs from before revisions
+        // were kept have had one pass
+        const revisions = await storage.listJobRevisions(existingJob.id);
+        const revision = (revisions[revisions.length - 1]?.revision ?? 1) + 1;
+        // A new source, so the previous run's chunks are dropped
+        job = await requeueJob(existingJob.id, {
+          mode: 'rewrite',
+          provider: data.provider,
+          selectedPresets: data.selectedPresets ?? null,
+          customInstructions: data.customInstructions || null,
+          options: { ...options, sourceText, revision },
+          chunks: null,
+          completedChunks: 0,
+          totalChunks: null
+        });
       } else {
-        job = await storage.createRewriteJob({
+        if (!finalInputText.trim()) {
+          return res.status(400).json({ error: 'No text provided for processing' });
+        }
+        job = await submitJob({
+          mode: 'rewrite',
           inputText: finalInputText,
           styleText: data.styleText || '',
+          selectedPresets: data.selectedPresets,
+          customInstructions: data.customInstructions,
           provider: data.provider,
-          status: 'processing'
-        });
-      }
-
-      // Update job status
-      await storage.updateRewriteJob(job.id, { status: 'processing' });
-
-      // Get style sample (default to Raven Paradox if none provided)
-      const defaultStyleSample = `There are two broad types of relationships: formal and functional. Formal relationships hold between linguistic entities. Functional relationships hold between properties. When I say "Snow is white" is true if and only if snow is white, the relationship between the sentence "Snow is white" and the sentence "snow is white" is formal: both are sentences, and the relationship between them can be captured in terms of their syntax and semantics. When I say that being white is a color property, the relationship between being white and being a color is functional: both are properties (of objects), and the relationship between them can be captured in terms of the functional roles that properties play.`;
-      
-      const styleSample = data.styleText?.trim() || defaultStyleSample;
-
-      // Chunk the text for processing
-      const chunks = textChunker.chunkText(textToProcess);
-      
-      // Process each chunk
-      const rewrittenChunks = [];
-      for (const chunk of chunks) {
-        const rewrittenChunk = await aiProviderService.rewrite(data.provider, {
-          inputText: chunk.content,
-          styleText: styleSample
+          options
         });
-        rewrittenChunks.push(rewrittenChunk);
       }
 
-      const rewrittenText = rewrittenChunks.join('\n\n');
-
-      // Update job with results
-      const updatedJob = await storage.updateRewriteJob(job.id, {
-        outputText: rewrittenText,
-        status: 'completed'
-      });
-
-      res.json({
-        success: true,
-        jobId: updatedJob.id,
-        rewrittenText: updatedJob.outputText,
-        originalText: updatedJob.inputText
-      });
+      res.status(202).json({ success: true, jobId: job.id, status: job.status });
 
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
       console.error('GPT Bypass rewrite error:', error);
       res.status(500).json({ 
         error: error instanceof Error ? error.message : 'Failed to process rewrite request' 
@@ -968,7 +1415,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all rewrite jobs
+  // List all rewrite jobs in full; kept for older clients, /api/jobs lists
+  // them a page at a time
   app.get('/api/gpt-bypass/jobs', async (req: Request, res: Response) => {
     try {
       const jobs = await storage.listRewriteJobs();
@@ -982,6 +1430,244 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Job summaries without their text, newest first, a page at a time: pass
+  // the response's nextCursor as ?cursor= for the next page
+  app.get('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      res.json(await listJobPage(storage, jobListQuerySchema.parse(req.query)));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('List jobs error:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list jobs' });
+      }
+    }
+  });
+
+  // Queue any processing request as a background job: { mode: 'process', ...
+  // the /api/process-text body } or { mode: 'rewrite', ... the GPT Bypass
+  // rewrite body }. Answers 202 with the queued job.
+  app.post('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const data = jobRequestSchema.parse(req.body);
+      const { mode, inputText, ...options } = data;
+      let job;
+      if (data.mode === 'rewrite') {
+        if (data.reRewrite) {
+          return res.status(400).json({ error: 'Re-rewrites go through /api/gpt-bypass/rewrite' });
+        }
+        getFallbackChain(data.provider, 'rewrite', data.fallbackProviders);
+        job = await submitJob({
+          mode,
+          inputText,
+          styleText: data.styleText || '',
+          selectedPresets: data.selectedPresets,
+          customInstructions: data.customInstructions,
+          provider: data.provider,
+          options
+        });
+      } else {
+        getFallbackChain(data.llmProvider, 'process', data.fallbackProviders);
+        job = await submitJob({ mode, inputText, customInstructions: data.instructions, provider: data.llmProvider, options });
+      }
+      res.status(202).json(job);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error submitting job:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to submit job' });
+      }
+    }
+  });
+
+  // A job's status, progress and, once it's done, its output
+  app.get('/api/jobs/:jobId', async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getRewriteJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      res.json(job);
+    } catch (error: unknown) {
+      console.error('Error getting job:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get job' });
+    }
+  });
+
+  // Cancel a queued or running job; a running job keeps the chunks it has finished
+  app.post('/api/jobs/:jobId/cancel', async (req: Request, res: Response) => {
+    try {
+      const job = await cancelJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      res.json(job);
+    } catch (error: unknown) {
+      console.error('Error cancelling job:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to cancel job' });
+    }
+  });
+
+  // Resume a rewrite job that failed, was cancelled or left sections out:
+  // only the chunks that didn't complete are rewritten, and the output is
+  // rebuilt from all of them
+  app.post('/api/jobs/:jobId/resume', async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getRewriteJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      if (!isFinished(job)) {
+        return res.status(409).json({ error: 'The job is still running' });
+      }
+      if (job.mode !== 'rewrite' || !job.chunks?.length) {
+        return res.status(400).json({ error: 'Only rewrite jobs with saved chunks can be resumed' });
+      }
+      if (job.chunks.every(chunk => chunk.status === 'completed')) {
+        return res.status(400).json({ error: 'Every chunk of the job is already done' });
+      }
+      res.status(202).json(await requeueJob(job.id));
+    } catch (error: unknown) {
+      console.error('Error resuming job:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to resume job' });
+    }
+  });
+
+  const revisionParams = z.object({
+    jobId: z.string(),
+    revision: z.coerce.number().int().min(1)
+  });
+
+  // The passes of a rewrite job, oldest first, without their full text
+  app.get('/api/jobs/:jobId/revisions', async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getRewriteJob(req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      const revisions = await storage.listJobRevisions(job.id);
+      res.json(revisions.map(({ inputText, outputText, ...revision }) => ({
+        ...revision,
+        inputWords: countWords(inputText),
+        outputWords: countWords(outputText),
+        preview: outputText.slice(0, 200)
+      })));
+    } catch (error: unknown) {
+      console.error('Error listing job revisions:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list revisions' });
+    }
+  });
+
+  // One pass of a rewrite job, with its input and output
+  app.get('/api/jobs/:jobId/revisions/:revision', async (req: Request, res: Response) => {
+    try {
+      const { jobId, revision } = revisionParams.parse(req.params);
+      const found = await storage.getJobRevision(jobId, revision);
+      if (!found) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      res.json(found);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error getting job revision:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get revision' });
+      }
+    }
+  });
+
+  // Word-level changes a pass made to its input, or with ?against=N, the
+  // changes from revision N's output to this one's
+  app.get('/api/jobs/:jobId/revisions/:revision/diff', async (req: Request, res: Response) => {
+    try {
+      const { jobId, revision } = revisionParams.parse(req.params);
+      const { against } = z.object({ against: z.coerce.number().int().min(1).optional() }).parse(req.query);
+      const found = await storage.getJobRevision(jobId, revision);
+      const base = against ? await storage.getJobRevision(jobId, against) : found;
+      if (!found || !base) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      const parts = diffText(against ? base.outputText : found.inputText, found.outputText);
+      res.json({ revision, against: against ?? null, parts, ...countChangedWords(parts) });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error diffing job revisions:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to diff revisions' });
+      }
+    }
+  });
+
+  // Make a revision's output the job's output again, so the next re-rewrite
+  // starts from it. Later revisions are kept.
+  app.post('/api/jobs/:jobId/revisions/:revision/restore', async (req: Request, res: Response) => {
+    try {
+      const { jobId, revision } = revisionParams.parse(req.params);
+      const job = await storage.getRewriteJob(jobId);
+      const found = await storage.getJobRevision(jobId, revision);
+      if (!job || !found) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      if (!isFinished(job)) {
+        return res.status(409).json({ error: 'The job is still running' });
+      }
+      // The saved chunks belong to the last pass, so there is nothing to resume
+      res.json(await storage.updateRewriteJob(jobId, {
+        outputText: found.outputText,
+        providers: found.providers,
+        promptVersions: found.promptVersions,
+        chunks: null,
+        error: null,
+        updatedAt: new Date()
+      }));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: fromZodError(error).message });
+      } else {
+        console.error('Error restoring job revision:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to restore revision' });
+      }
+    }
+  });
+
+  // Follow a job over SSE instead of polling: the job is sent as it stands
+  // and again on every change, and the stream ends once the job has finished
+  app.get('/api/jobs/:jobId/events', async (req: Request, res: Response) => {
+    const { jobId } = req.params;
+    let job;
+    try {
+      job = await storage.getRewriteJob(jobId);
+    } catch (error: unknown) {
+      console.error('Error getting job:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to get job' });
+      return;
+    }
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    const stream = openEventStream(res);
+    if (isFinished(job)) {
+      stream.done(job);
+      return;
+    }
+    stream.job(job);
+    const unsubscribe = subscribeToJob(jobId, (update) => {
+      if (isFinished(update)) {
+        unsubscribe();
+        stream.done(update);
+      } else {
+        stream.job(update);
+      }
+    });
+    res.on('close', unsubscribe);
+  });
+
   // Export document endpoint for GPT Bypass downloads  
   app.post('/api/export-document', async (req: Request, res: Response) => {
     try {
@@ -1054,5 +1740,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Pick up the jobs a restart interrupted
+  resumeInterruptedJobs()
+    .then(count => {
+      if (count > 0) console.log(`Resuming ${count} interrupted job${count === 1 ? '' : 's'}`);
+    })
+    .catch(error => console.error('Failed to resume interrupted jobs:', error));
+
   return httpServer;
 }
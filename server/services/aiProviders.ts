@@ -1,5 +1,8 @@
 import OpenAI from "openai";
 import Anthropic from '@anthropic-ai/sdk';
+import type { GenerationSettings } from '@shared/schema';
+import { completeWithOpenAIClient, completeWithAnthropicClient, completeWithFetch } from '../llm/streaming';
+import { renderPrompt } from '../llm/prompts';
 
 /*
 <important_code_snippet_instructions>
@@ -13,12 +16,15 @@ const DEFAULT_OPENAI_MODEL = "gpt-4o";
 const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
 // </important_do_not_delete>
 
+// Retries are handled by the request scheduler, not the SDKs
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key",
+  maxRetries: 0,
 });
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY_ENV_VAR || "default_key",
+  maxRetries: 0,
 });
 
 const PRESET_TEXT: Record<string,string> = {
@@ -83,51 +89,33 @@ function expandPresets(selected: string[] = []): string[] {
   return out;
 }
 
-function buildPresetBlock(selectedPresets?: string[], customInstructions?: string): string {
+function buildPresetLines(selectedPresets?: string[], customInstructions?: string): string {
   const expanded = expandPresets(selectedPresets || []);
   const lines: string[] = [];
   expanded.forEach(name => { lines.push(`- ${PRESET_TEXT[name]}`); });
   const custom = (customInstructions || "").trim();
   if (custom) lines.push(`- ${custom}`);
-  if (lines.length === 0) return "";
-  return `Apply ONLY these additional rewrite instructions (no other goals):\n${lines.join("\n")}\n\n`;
+  return lines.join("\n");
 }
 
-function buildRewritePrompt(params: {
+export function buildRewritePrompt(params: {
   inputText: string;
   styleText?: string;
   contentMixText?: string;
   selectedPresets?: string[];
   customInstructions?: string;
 }): string {
-  const hasStyle = !!(params.styleText && params.styleText.trim() !== "");
-  const hasContent = !!(params.contentMixText && params.contentMixText.trim() !== "");
-  const styleSample = hasStyle ? params.styleText! : `DEFAULT STYLE SAMPLE (The Raven Paradox):
-
-Presumably, logically equivalent statements are confirmationally equivalent. In other words, if two statements entail each other, then anything that one confirms the one statement to a given degree also confirms the other statement to that degree. But this actually seems false when consider statement-pairs such as: 
-
-(i) All ravens are black, 
-and 
-(ii) All non-black things are non-ravens, 
-
-which, though logically equivalent, seem to confirmationally equivalent, in that a non-black non-raven confirms (ii) to a high degree but confirms (i) to no degree or at most to a low degree. 
-A number of very contrived solutions to this paradox have been proposed, all of which either deny that there is a paradox or invent ad hoc systems of logic to validate the 'solution' in question. 
-But the real solution is clear. First of all, it is only principled generalizations that can be confirmed. Supposing that you assert (i) with the intention of affirming a principled as opposed to an accidental generalization, you are saying that instances of the property of being a raven grounds or causes instances of blackness. Read thus, (i) is most certainly not equivalent with (ii) or with any variation thereof. Be it noted that while there is a natural nomic or causal reading of (i), there is no natural nomic or causal reading of (ii). On a causal reading, (ii) would mean that instances of non-blackness cause or ground instances of non-ravenness, but this seems absurd. The blackness of a thing does not seem to be caused or grounded by the fact that the thing is a raven. Rather the reverse: the ravenness causes or grounds (somehow, though it may be difficult to say how) the blackness.`;
-
-  let prompt = `Rewrite the text below so that its style matches, at a granular level, the style of the following style sample:\n"${styleSample}"\n\n`;
-
-  if (hasContent) {
-    prompt += `Judiciously integrate relevant ideas, examples, and details from the following content reference to enrich the rewrite:\n"${params.contentMixText}"\n\n`;
-  }
-
-  // <<< PRESETS/APPLIED INSTRUCTIONS HERE >>>
-  prompt += buildPresetBlock(params.selectedPresets, params.customInstructions);
-
-  prompt += `Text to rewrite:\n"${params.inputText}"`;
-  return prompt;
+  // The rewrite template falls back to its own default style sample when
+  // none is given
+  return renderPrompt('rewrite', {
+    inputText: params.inputText,
+    styleSample: params.styleText,
+    contentMix: params.contentMixText,
+    rewriteInstructions: buildPresetLines(params.selectedPresets, params.customInstructions),
+  });
 }
 
-export interface RewriteParams {
+export interface RewriteParams extends GenerationSettings {
   inputText: string;
   styleText?: string;
   contentMixText?: string;
@@ -150,17 +138,17 @@ export class AIProviderService {
     
     try {
       console.log("🔥 About to make OpenAI API call...");
-      const response = await openai.chat.completions.create({
-        model: DEFAULT_OPENAI_MODEL,
+      const content = await completeWithOpenAIClient('openai', openai, {
+        model: params.model || DEFAULT_OPENAI_MODEL,
         messages: [
           { role: "user", content: prompt }
         ],
-        temperature: 0.7,
-        max_tokens: 4000,
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens ?? 4000,
       });
 
-      console.log("🔥 OpenAI response received, length:", response.choices[0].message.content?.length || 0);
-      return this.cleanMarkup(response.choices[0].message.content || "");
+      console.log("🔥 OpenAI response received, length:", content.length);
+      return this.cleanMarkup(content);
     } catch (error: any) {
       console.error("🔥 OpenAI API ERROR:", error);
       throw new Error(`OpenAI API error: ${error.message}`);
@@ -180,16 +168,15 @@ export class AIProviderService {
     
     try {
       console.log("🔥 About to make Anthropic API call...");
-      const response = await anthropic.messages.create({
-        model: DEFAULT_ANTHROPIC_MODEL,
+      const textContent = await completeWithAnthropicClient('anthropic', anthropic, {
+        model: params.model || DEFAULT_ANTHROPIC_MODEL,
         messages: [
           { role: "user", content: prompt }
         ],
-        max_tokens: 4000,
-        temperature: 0.7,
+        max_tokens: params.maxTokens ?? 4000,
+        temperature: params.temperature ?? 0.7,
       });
 
-      const textContent = response.content[0]?.type === 'text' ? response.content[0].text : '';
       console.log("🔥 Anthropic response received, length:", textContent.length);
       return this.cleanMarkup(textContent);
     } catch (error: any) {
@@ -199,20 +186,21 @@ export class AIProviderService {
   }
 
   async rewriteWithPerplexity(params: RewriteParams): Promise<string> {
-    // Use standard completion format for sonar-pro
     const messages = [
       {
-        role: "system",
-        content: "You are a helpful AI assistant that rewrites text to make it more human-like and natural."
-      },
-      {
-        role: "user", 
-        content: `Please rewrite the following text to make it more human-like and natural while preserving the original meaning:\n\n${params.inputText}`
+        role: "user",
+        content: buildRewritePrompt({
+          inputText: params.inputText,
+          styleText: params.styleText,
+          contentMixText: params.contentMixText,
+          selectedPresets: params.selectedPresets,
+          customInstructions: params.customInstructions,
+        })
       }
     ];
     
     console.log('🔥 PERPLEXITY REQUEST:', {
-      model: "sonar-pro",
+      model: params.model || "sonar-pro",
       message_count: messages.length,
       input_length: params.inputText.length,
       has_api_key: !!(process.env.PERPLEXITY_API_KEY)
@@ -220,32 +208,21 @@ export class AIProviderService {
     
     try {
       const requestBody = {
-        model: "sonar-pro",
+        model: params.model || "sonar-pro",
         messages: messages,
-        max_tokens: 4000,
-        temperature: 0.7,
-        stream: false
+        max_tokens: params.maxTokens ?? 4000,
+        temperature: params.temperature ?? 0.7
       };
       
       console.log('🔥 PERPLEXITY REQUEST BODY:', JSON.stringify(requestBody, null, 2));
       
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Perplexity API error ${response.status}: ${errorText}`);
-        throw new Error(`Perplexity API error: ${response.statusText} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
+      const content = await completeWithFetch(
+        'perplexity',
+        'https://api.perplexity.ai/chat/completions',
+        process.env.PERPLEXITY_API_KEY || '',
+        requestBody
+      );
+      return this.cleanMarkup(content);
     } catch (error: any) {
       throw new Error(`Perplexity API error: ${error.message}`);
     }
@@ -261,49 +238,25 @@ export class AIProviderService {
     });
     
     try {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY || process.env.DEEPSEEK_API_KEY_ENV_VAR || "default_key"}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
+      const content = await completeWithFetch(
+        'deepseek',
+        'https://api.deepseek.com/chat/completions',
+        process.env.DEEPSEEK_API_KEY || process.env.DEEPSEEK_API_KEY_ENV_VAR || "default_key",
+        {
+          model: params.model || "deepseek-chat",
           messages: [
             { role: "user", content: prompt }
           ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`DeepSeek API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
+          temperature: params.temperature ?? 0.7,
+          max_tokens: params.maxTokens ?? 4000,
+        }
+      );
+      return this.cleanMarkup(content);
     } catch (error: any) {
       throw new Error(`DeepSeek API error: ${error.message}`);
     }
   }
 
-  async rewrite(provider: string, params: RewriteParams): Promise<string> {
-    switch (provider) {
-      case 'openai':
-        return this.rewriteWithOpenAI(params);
-      case 'anthropic':
-        return this.rewriteWithAnthropic(params);
-      case 'perplexity':
-        return this.rewriteWithPerplexity(params);
-      case 'deepseek':
-        return this.rewriteWithDeepSeek(params);
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-  }
-
   cleanMarkup(text: string): string {
     return text
       // Remove markdown bold/italic markers
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { TextChunk } from '@shared/schema';
+import { TextChunker } from './textChunker';
+
+const first = 'Volcanoes erupt when magma rises through cracks in the crust. Pressure builds beneath the mountain until gases escape violently.';
+const overlap = 'Pressure builds beneath the mountain until gases escape violently.';
+const own = 'Lava flows then cover nearby valleys and destroy farmland. Farmers rebuild slowly after eruptions.';
+const third = 'Farmers rebuild slowly after eruptions. Scientists now monitor the summit with seismic sensors every hour.';
+
+// Chunks as chunkText makes them: each one opens with the end of the one before
+const chunks: TextChunk[] = [
+  { id: 'a', content: first, startWord: 1, endWord: 19 },
+  { id: 'b', content: `${overlap} ${own}`, startWord: 11, endWord: 33 },
+  { id: 'c', content: third, startWord: 29, endWord: 43 },
+];
+
+const firstOutput = 'Magma rising through cracks in the crust makes volcanoes erupt. Pressure grows beneath the mountain until gases escape violently.';
+
+describe('stitchProcessedChunks', () => {
+  const chunker = new TextChunker();
+
+  it('drops an opening that repeats the overlap', () => {
+    const output = 'Pressure mounts beneath the mountain until the gases escape violently. Lava flows then cover nearby valleys, destroying farmland. Farmers rebuild slowly after eruptions.';
+    expect(chunker.stitchProcessedChunks(chunks.slice(0, 2), [firstOutput, output])).toBe(
+      `${firstOutput} Lava flows then cover nearby valleys, destroying farmland. Farmers rebuild slowly after eruptions.`
+    );
+  });
+
+  it('leaves an output that does not repeat the overlap unchanged', () => {
+    const output = 'Lava flows then cover nearby valleys and destroy farmland. Farmers rebuild slowly after eruptions.';
+    expect(chunker.stitchProcessedChunks(chunks.slice(0, 2), [firstOutput, output])).toBe(`${firstOutput} ${output}`);
+  });
+
+  it('keeps the overlap of a chunk whose neighbour is missing', () => {
+    const output = 'Farmers rebuild slowly after eruptions. Scientists now watch the summit with seismic sensors every hour.';
+    expect(chunker.stitchProcessedChunks(chunks, [firstOutput, undefined, output])).toBe(
+      `${firstOutput}\n\n[...]\n\n${output}`
+    );
+  });
+
+  it('always keeps at least one sentence of the output', () => {
+    const repeated = 'Pressure builds beneath the mountain. Gases escape violently from the mountain.';
+    expect(chunker.stitchProcessedChunks(chunks.slice(0, 2), [firstOutput, overlap])).toBe(`${firstOutput} ${overlap}`);
+    expect(chunker.stitchProcessedChunks(chunks.slice(0, 2), [firstOutput, repeated])).toBe(
+      `${firstOutput} Gases escape violently from the mountain.`
+    );
+  });
+});
@@ -1,48 +1,23 @@
 import { TextChunk } from "@shared/schema";
+import { chunkDocument, countWords } from "@shared/chunking";
 import { randomUUID } from "crypto";
 
 export class TextChunker {
   private readonly CHUNK_SIZE = 500; // words per chunk
   private readonly OVERLAP_SIZE = 50; // word overlap between chunks
 
+  // Each chunk's content starts with the end of the previous chunk (about
+  // OVERLAP_SIZE words) for context; startWord/endWord are 1-based word
+  // positions in the text, overlap included
   chunkText(text: string): TextChunk[] {
-    const words = text.trim().split(/\s+/);
-    const totalWords = words.length;
-    
-    if (totalWords <= this.CHUNK_SIZE) {
-      return [{
+    return chunkDocument(text, { maxSize: this.CHUNK_SIZE, overlapWords: this.OVERLAP_SIZE })
+      .map(chunk => ({
         id: randomUUID(),
-        content: text,
-        startWord: 1,
-        endWord: totalWords,
-      }];
-    }
-
-    const chunks: TextChunk[] = [];
-    let currentStart = 0;
-
-    while (currentStart < totalWords) {
-      const currentEnd = Math.min(currentStart + this.CHUNK_SIZE, totalWords);
-      const chunkWords = words.slice(currentStart, currentEnd);
-      const chunkContent = chunkWords.join(' ');
-
-      chunks.push({
-        id: randomUUID(),
-        content: chunkContent,
-        startWord: currentStart + 1,
-        endWord: currentEnd,
-      });
-
-      // Move to next chunk with overlap
-      currentStart = currentEnd - this.OVERLAP_SIZE;
-      
-      // Ensure we don't create tiny final chunks
-      if (totalWords - currentStart < this.CHUNK_SIZE / 2) {
-        break;
-      }
-    }
-
-    return chunks;
+        content: text.slice(chunk.overlapStart, chunk.end).trim(),
+        startWord: countWords(text.slice(0, chunk.overlapStart)) + 1,
+        endWord: countWords(text.slice(0, chunk.end)),
+      }))
+      .filter(chunk => chunk.content.length > 0);
   }
 
   reconstructFromChunks(chunks: TextChunk[], selectedChunkIds: string[]): string {
@@ -81,6 +56,37 @@ export class TextChunker {
     return reconstructedText;
   }
 
+  // Joins the processed versions of chunks (outputs[i] for chunks[i], undefined
+  // where a chunk wasn't processed) into one text. Each chunk was sent with
+  // the end of the previous one as overlap, so its output usually opens by
+  // rewording text the previous output already covers; those opening
+  // sentences are dropped. A sentence counts as overlap while it shares more
+  // words with the overlap's source text than with the start of the chunk's
+  // own text.
+  stitchProcessedChunks(chunks: TextChunk[], outputs: Array<string | undefined>): string {
+    let stitched = '';
+    let previous = -1;
+
+    outputs.forEach((output, i) => {
+      const text = output?.trim();
+      if (!text) return;
+
+      if (previous === -1) {
+        stitched = text;
+      } else if (previous !== i - 1) {
+        // The chunk's overlap belongs to a chunk that wasn't processed, so it's kept
+        stitched += '\n\n[...]\n\n' + text;
+      } else {
+        const overlapWords = Math.max(0, chunks[i - 1].endWord - chunks[i].startWord + 1);
+        const { overlap, own, separator } = splitOverlap(chunks[i].content, overlapWords);
+        stitched += separator + (overlap ? dropRepeatedOpening(text, overlap, own) : text);
+      }
+      previous = i;
+    });
+
+    return stitched;
+  }
+
   getChunkPreview(content: string, maxLength: number = 150): string {
     if (content.length <= maxLength) {
       return content;
@@ -89,4 +95,76 @@ export class TextChunker {
   }
 }
 
+// Short words carry little about which passage a sentence came from
+const STOPWORDS = new Set(['that', 'this', 'with', 'from', 'have', 'which', 'they', 'their', 'there', 'these', 'those', 'were', 'been', 'being', 'would', 'could', 'should', 'about', 'into', 'than', 'then', 'them', 'what', 'when', 'where', 'while', 'also', 'such', 'more', 'most', 'some', 'only', 'other', 'does']);
+// Leading sentences of an output that may be dropped, beyond the overlap's own count
+const EXTRA_OVERLAP_SENTENCES = 2;
+
+// Word stems of a passage, for comparing a rewrite with its source
+function stems(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [];
+  return new Set(words.filter(word => word.length > 3 && !STOPWORDS.has(word)).map(word => word.replace(/(ing|ed|es|s|ly)$/, '')));
+}
+
+function shareOf(words: Set<string>, reference: Set<string>): number {
+  if (words.size === 0) return 0;
+  let shared = 0;
+  words.forEach(word => { if (reference.has(word)) shared++; });
+  return shared / words.size;
+}
+
+// Offsets at which each sentence (or line) of text starts
+function sentenceStarts(text: string): number[] {
+  const starts = [0];
+  for (const match of Array.from(text.matchAll(/[.!?]['"’”)\]]*\s+|\n\s*/g))) {
+    const end = match.index! + match[0].length;
+    if (end < text.length && end > starts[starts.length - 1]) starts.push(end);
+  }
+  return starts;
+}
+
+// Splits a chunk's content into its first `words` words (the overlap) and
+// the rest, and picks the separator its processed version should be joined
+// with: a paragraph break if the chunk's own text starts a paragraph
+function splitOverlap(content: string, words: number): { overlap: string; own: string; separator: string } {
+  const matches = Array.from(content.matchAll(/\S+/g));
+  if (words === 0 || matches.length === 0) return { overlap: '', own: content, separator: '\n\n' };
+  const last = matches[Math.min(words, matches.length) - 1];
+  const end = last.index! + last[0].length;
+  const rest = content.slice(end);
+  return {
+    overlap: content.slice(0, end),
+    own: rest.trim(),
+    separator: /^\s*\n/.test(rest) ? '\n\n' : ' ',
+  };
+}
+
+// The output without the opening sentences that reword the overlap. The cut
+// is placed where the running balance of "more like the overlap" over "more
+// like the chunk's own text" peaks, so one ambiguous sentence doesn't end
+// the overlap early. At least one sentence is always kept.
+function dropRepeatedOpening(output: string, overlap: string, own: string): string {
+  const starts = sentenceStarts(output);
+  const overlapSentences = sentenceStarts(overlap).length;
+  const limit = Math.min(starts.length - 1, overlapSentences + EXTRA_OVERLAP_SENTENCES);
+
+  // Both sides are source text, so words the rewrite introduced favour neither
+  const overlapStems = stems(overlap);
+  const ownWords = own.match(/\S+/g) || [];
+  const ownStems = stems(ownWords.slice(0, Math.max(2 * (overlap.match(/\S+/g) || []).length, 20)).join(' '));
+
+  let balance = 0;
+  let best = 0;
+  let cut = 0;
+  for (let j = 0; j < limit; j++) {
+    const sentence = stems(output.slice(starts[j], starts[j + 1]));
+    balance += shareOf(sentence, overlapStems) - shareOf(sentence, ownStems);
+    if (balance > best) {
+      best = balance;
+      cut = j + 1;
+    }
+  }
+  return output.slice(starts[cut]).trim();
+}
+
 export const textChunkerService = new TextChunker();
\ No newline at end of file
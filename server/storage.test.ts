@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { JsonFileStorage, MemStorage } from './storage';
+
+const usage = { provider: 'mock', model: 'mock', inputTokens: 1, outputTokens: 1 };
+
+function cacheEntry(key: string, expiresInMs: number) {
+  return { key, provider: 'mock', model: 'mock', response: `reply ${key}`, expiresAt: new Date(Date.now() + expiresInMs) };
+}
+
+describe('MemStorage pruning', () => {
+  it('keeps the newest 100,000 usage records', async () => {
+    const storage = new MemStorage();
+    for (let i = 0; i < 100005; i++) await storage.createLlmUsage({ ...usage, operation: `call ${i}` });
+    const records = await storage.listLlmUsage();
+    expect(records).toHaveLength(100000);
+    expect(records[0].operation).toBe('call 5');
+  });
+
+  it('drops expired cache entries first, then the oldest, past 2,000', async () => {
+    const storage = new MemStorage();
+    await storage.putCachedResponse(cacheEntry('expired', -1000));
+    for (let i = 0; i < 2001; i++) await storage.putCachedResponse(cacheEntry(`k${i}`, 60000));
+    expect(await storage.getCachedResponse('expired')).toBeUndefined();
+    expect(await storage.getCachedResponse('k0')).toBeUndefined();
+    expect(await storage.getCachedResponse('k1')).toBeDefined();
+    expect(await storage.getCachedResponse('k2000')).toBeDefined();
+  });
+
+  it('keeps an entry that is written again as the newest', async () => {
+    const storage = new MemStorage();
+    for (let i = 0; i < 2000; i++) await storage.putCachedResponse(cacheEntry(`k${i}`, 60000));
+    await storage.putCachedResponse(cacheEntry('k0', 60000));
+    await storage.putCachedResponse(cacheEntry('new', 60000));
+    expect(await storage.getCachedResponse('k0')).toBeDefined();
+    expect(await storage.getCachedResponse('k1')).toBeUndefined();
+  });
+});
+
+describe('JsonFileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'storage-test-'));
+    file = path.join(dir, 'data', 'store.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('gives back what it saved when the file is read again', async () => {
+    const storage = new JsonFileStorage(file);
+    const document = await storage.createDocument({ filename: 'notes.txt', content: 'Graphs have nodes.' });
+    const job = await storage.createRewriteJob({ inputText: 'Rewrite me', provider: 'mock' });
+    await storage.createLlmUsage({ ...usage, jobId: job.id });
+    await storage.putCachedResponse(cacheEntry('key', 60000));
+    await storage.save();
+
+    const reloaded = new JsonFileStorage(file);
+    expect(await reloaded.getDocument(document.id)).toEqual(document);
+    expect(await reloaded.getRewriteJob(job.id)).toEqual(job);
+    expect(await reloaded.listLlmUsage({ jobId: job.id })).toHaveLength(1);
+    expect((await reloaded.getCachedResponse('key'))?.response).toBe('reply key');
+  });
+
+  it('writes a change made during a save straight after it', async () => {
+    const storage = new JsonFileStorage(file);
+    await storage.createDocument({ filename: 'a.txt', content: 'first' });
+    const first = storage.save();
+    await storage.createDocument({ filename: 'b.txt', content: 'second' });
+    await first;
+    await storage.save();
+    expect(JSON.parse(readFileSync(file, 'utf-8')).documents).toHaveLength(2);
+  });
+
+  it('replaces the file whole, so a save cut short leaves the last one readable', async () => {
+    const storage = new JsonFileStorage(file);
+    await storage.createDocument({ filename: 'a.txt', content: 'kept' });
+    await storage.save();
+    expect(existsSync(`${file}.tmp`)).toBe(false);
+
+    // A save that crashed part way through its temporary file
+    writeFileSync(`${file}.tmp`, '{"documents": [');
+    expect(await new JsonFileStorage(file).listDocuments()).toHaveLength(1);
+
+    await storage.createDocument({ filename: 'b.txt', content: 'added' });
+    await storage.save();
+    expect(existsSync(`${file}.tmp`)).toBe(false);
+    expect(await new JsonFileStorage(file).listDocuments()).toHaveLength(2);
+  });
+
+  it('drops usage older than a year and expired cache entries on load', async () => {
+    const old = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000);
+    const storage = new JsonFileStorage(file);
+    await storage.createLlmUsage(usage);
+    await storage.putCachedResponse(cacheEntry('expired', 50));
+    await storage.save();
+    const contents = JSON.parse(readFileSync(file, 'utf-8'));
+    contents.llmUsage.unshift({ ...contents.llmUsage[0], id: 'old', createdAt: old.toISOString() });
+    writeFileSync(file, JSON.stringify(contents));
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    const reloaded = new JsonFileStorage(file);
+    expect((await reloaded.listLlmUsage()).map(record => record.id)).not.toContain('old');
+    expect(await reloaded.listLlmUsage()).toHaveLength(1);
+    expect(await reloaded.getCachedResponse('expired')).toBeUndefined();
+  });
+
+  it('writes pending changes before exiting on SIGTERM', async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    const storage = new JsonFileStorage(file);
+    await storage.createDocument({ filename: 'a.txt', content: 'not saved yet' });
+    expect(existsSync(file)).toBe(false);
+
+    process.emit('SIGTERM', 'SIGTERM');
+    expect(exit).toHaveBeenCalledWith(143);
+    expect(JSON.parse(readFileSync(file, 'utf-8')).documents).toHaveLength(1);
+  });
+});
@@ -1,36 +1,142 @@
 import { 
   type User, type InsertUser, 
   type Document, type InsertDocument,
-  type RewriteJob, type InsertRewriteJob
+  type RewriteJob, type InsertRewriteJob,
+  type JobRevision, type InsertJobRevision,
+  type LlmUsage, type InsertLlmUsage,
+  type LlmCacheEntry, type InsertLlmCacheEntry,
+  type PromptTemplate, type InsertPromptTemplate,
+  type JobMode
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
-import { users, documents, rewriteJobs } from "@shared/schema";
+import { connectDatabase, type Database } from "./db";
+import { and, asc, desc, eq, gt, gte, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { users, documents, rewriteJobs, jobRevisions, llmUsage, llmCache, promptTemplates } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { closeSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { mkdir, open, rename } from "fs/promises";
+import path from "path";
+import {
+  HEADLINE_OPTIONS,
+  buildSnippet,
+  matchText,
+  parseHighlightedSnippet,
+  parseQuery,
+  titleFromText,
+  type SearchHit
+} from "./utils/search";
 
 export interface IStorage {
   // Document operations
   createDocument(document: InsertDocument): Promise<Document>;
   getDocument(id: string): Promise<Document | undefined>;
+  // Newest first
+  listDocuments(): Promise<Document[]>;
+  updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined>;
+  // False when there was no such document
+  deleteDocument(id: string): Promise<boolean>;
   
   // Rewrite job operations
   createRewriteJob(job: InsertRewriteJob): Promise<RewriteJob>;
   getRewriteJob(id: string): Promise<RewriteJob | undefined>;
   updateRewriteJob(id: string, updates: Partial<RewriteJob>): Promise<RewriteJob>;
   listRewriteJobs(): Promise<RewriteJob[]>;
+  // One page of jobs without their text, newest first
+  listJobSummaries(filter: JobListFilter): Promise<JobSummary[]>;
+  
+  // Revisions of a rewrite job, one per pass. Saving a revision number the
+  // job already has replaces it.
+  saveJobRevision(revision: InsertJobRevision): Promise<JobRevision>;
+  listJobRevisions(jobId: string): Promise<JobRevision[]>;
+  getJobRevision(jobId: string, revision: number): Promise<JobRevision | undefined>;
+  
+  // LLM usage accounting
+  createLlmUsage(usage: InsertLlmUsage): Promise<LlmUsage>;
+  listLlmUsage(filter?: LlmUsageFilter): Promise<LlmUsage[]>;
+  
+  // LLM response cache; expired entries are never returned
+  getCachedResponse(key: string): Promise<LlmCacheEntry | undefined>;
+  putCachedResponse(entry: InsertLlmCacheEntry): Promise<void>;
+  
+  // Full-text search over documents and the input and output of rewrite
+  // jobs, best matches first
+  search(query: string, limit: number): Promise<SearchHit[]>;
+  
+  // Prompt template versions saved through the API
+  listPromptTemplates(): Promise<PromptTemplate[]>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+}
+
+export interface LlmUsageFilter {
+  since?: Date;
+  jobId?: string;
+  requestId?: string;
+  clientId?: string;
+}
+
+export interface JobListFilter {
+  statuses?: string[];
+  provider?: string;
+  mode?: JobMode;
+  // Created between `from` and `to`, both included
+  from?: Date;
+  to?: Date;
+  // Full-text search over the input and output, as in search()
+  query?: string;
+  // Only jobs listed after this one: newest first, ties broken by id
+  after?: { createdAt: Date; id: string };
+  limit: number;
+}
+
+// A job without its input and output, for listings
+export interface JobSummary {
+  id: string;
+  mode: JobMode;
+  status: string;
+  provider: string;
+  providers: string[] | null;
+  totalChunks: number | null;
+  completedChunks: number;
+  error: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  // The start of the input
+  title: string;
+  // In characters
+  inputLength: number;
+  outputLength: number | null;
+}
+
+// Before jobs ran in the background a job was "pending" until its rewrite
+// finished; those rows read as "queued" now
+const LEGACY_STATUS = 'pending';
+
+function withCurrentStatus<T extends { status: string }>(job: T): T {
+  return job.status === LEGACY_STATUS ? { ...job, status: 'queued' } : job;
+}
+
+function isNewerJob(a: { createdAt: Date | null; id: string }, b: { createdAt: Date | null; id: string }): boolean {
+  const aTime = a.createdAt?.getTime() || 0;
+  const bTime = b.createdAt?.getTime() || 0;
+  return aTime > bTime || (aTime === bTime && a.id > b.id);
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const id = randomUUID();
+    const now = new Date();
     const document: Document = {
+      aiScore: null,
+      source: 'upload',
       ...insertDocument,
       id,
-      createdAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
     };
     
     try {
-      const [newDocument] = await db.insert(documents).values(document).returning();
+      const [newDocument] = await this.db.insert(documents).values(document).returning();
       return newDocument;
     } catch (error) {
       console.error('Database error creating document:', error);
@@ -40,7 +146,7 @@ export class DatabaseStorage implements IStorage {
 
   async getDocument(id: string): Promise<Document | undefined> {
     try {
-      const [document] = await db.select().from(documents).where(eq(documents.id, id));
+      const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
       return document;
     } catch (error) {
       console.error('Database error getting document:', error);
@@ -48,16 +154,52 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async listDocuments(): Promise<Document[]> {
+    try {
+      return await this.db.select().from(documents).orderBy(desc(documents.createdAt));
+    } catch (error) {
+      console.error('Database error listing documents:', error);
+      return [];
+    }
+  }
+
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    try {
+      const [document] = await this.db
+        .update(documents)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(documents.id, id))
+        .returning();
+      return document;
+    } catch (error) {
+      console.error('Database error updating document:', error);
+      throw error;
+    }
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    try {
+      const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Database error deleting document:', error);
+      throw error;
+    }
+  }
+
   async createRewriteJob(insertJob: InsertRewriteJob): Promise<RewriteJob> {
     const id = randomUUID();
+    const now = new Date();
     const job: RewriteJob = {
+      ...REWRITE_JOB_DEFAULTS,
+      updatedAt: now,
       ...insertJob,
       id,
-      createdAt: new Date(),
+      createdAt: now,
     };
     
     try {
-      const [newJob] = await db.insert(rewriteJobs).values(job).returning();
+      const [newJob] = await this.db.insert(rewriteJobs).values(job).returning();
       return newJob;
     } catch (error) {
       console.error('Database error creating rewrite job:', error);
@@ -67,8 +209,8 @@ export class DatabaseStorage implements IStorage {
 
   async getRewriteJob(id: string): Promise<RewriteJob | undefined> {
     try {
-      const [job] = await db.select().from(rewriteJobs).where(eq(rewriteJobs.id, id));
-      return job;
+      const [job] = await this.db.select().from(rewriteJobs).where(eq(rewriteJobs.id, id));
+      return job && withCurrentStatus(job);
     } catch (error) {
       console.error('Database error getting rewrite job:', error);
       return undefined;
@@ -77,7 +219,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateRewriteJob(id: string, updates: Partial<RewriteJob>): Promise<RewriteJob> {
     try {
-      const [updatedJob] = await db
+      const [updatedJob] = await this.db
         .update(rewriteJobs)
         .set(updates)
         .where(eq(rewriteJobs.id, id))
@@ -87,7 +229,7 @@ export class DatabaseStorage implements IStorage {
         throw new Error(`Rewrite job with id ${id} not found`);
       }
       
-      return updatedJob;
+      return withCurrentStatus(updatedJob);
     } catch (error) {
       console.error('Database error updating rewrite job:', error);
       throw error;
@@ -96,32 +238,308 @@ export class DatabaseStorage implements IStorage {
 
   async listRewriteJobs(): Promise<RewriteJob[]> {
     try {
-      const jobs = await db.select().from(rewriteJobs).orderBy(rewriteJobs.createdAt);
-      return jobs.reverse(); // Most recent first
+      const jobs = await this.db.select().from(rewriteJobs).orderBy(rewriteJobs.createdAt);
+      return jobs.reverse().map(withCurrentStatus); // Most recent first
     } catch (error) {
       console.error('Database error listing rewrite jobs:', error);
       return [];
     }
   }
+
+  async listJobSummaries(filter: JobListFilter): Promise<JobSummary[]> {
+    try {
+      const conditions = [];
+      if (filter.statuses?.length) {
+        const statuses = filter.statuses.includes('queued') ? [...filter.statuses, LEGACY_STATUS] : filter.statuses;
+        conditions.push(inArray(rewriteJobs.status, statuses));
+      }
+      if (filter.provider) conditions.push(eq(rewriteJobs.provider, filter.provider));
+      if (filter.mode) conditions.push(eq(rewriteJobs.mode, filter.mode));
+      if (filter.from) conditions.push(gte(rewriteJobs.createdAt, filter.from));
+      if (filter.to) conditions.push(lte(rewriteJobs.createdAt, filter.to));
+      if (filter.query) {
+        // The same expressions as search() and the indexes in shared/schema.ts
+        const tsquery = sql`websearch_to_tsquery('english', ${filter.query})`;
+        conditions.push(sql`(to_tsvector('english', ${rewriteJobs.inputText}) @@ ${tsquery} or to_tsvector('english', coalesce(${rewriteJobs.outputText}, '')) @@ ${tsquery})`);
+      }
+      if (filter.after) {
+        conditions.push(or(
+          lt(rewriteJobs.createdAt, filter.after.createdAt),
+          and(eq(rewriteJobs.createdAt, filter.after.createdAt), lt(rewriteJobs.id, filter.after.id))
+        ));
+      }
+
+      const rows = await this.db
+        .select({
+          id: rewriteJobs.id,
+          mode: rewriteJobs.mode,
+          status: rewriteJobs.status,
+          provider: rewriteJobs.provider,
+          providers: rewriteJobs.providers,
+          totalChunks: rewriteJobs.totalChunks,
+          completedChunks: rewriteJobs.completedChunks,
+          error: rewriteJobs.error,
+          createdAt: rewriteJobs.createdAt,
+          updatedAt: rewriteJobs.updatedAt,
+          start: sql<string>`left(${rewriteJobs.inputText}, 200)`,
+          inputLength: sql<number>`char_length(${rewriteJobs.inputText})`,
+          outputLength: sql<number | null>`char_length(${rewriteJobs.outputText})`
+        })
+        .from(rewriteJobs)
+        .where(and(...conditions))
+        .orderBy(desc(rewriteJobs.createdAt), desc(rewriteJobs.id))
+        .limit(filter.limit);
+      return rows.map(({ start, ...row }) => withCurrentStatus({ ...row, title: titleFromText(start) }));
+    } catch (error) {
+      console.error('Database error listing job summaries:', error);
+      throw error;
+    }
+  }
+
+  async saveJobRevision(revision: InsertJobRevision): Promise<JobRevision> {
+    try {
+      const { jobId: _jobId, revision: _revision, ...changes } = revision;
+      const [saved] = await this.db
+        .insert(jobRevisions)
+        .values(revision)
+        .onConflictDoUpdate({
+          target: [jobRevisions.jobId, jobRevisions.revision],
+          set: { ...changes, createdAt: new Date() }
+        })
+        .returning();
+      return saved;
+    } catch (error) {
+      console.error('Database error saving job revision:', error);
+      throw error;
+    }
+  }
+
+  async listJobRevisions(jobId: string): Promise<JobRevision[]> {
+    try {
+      return await this.db.select().from(jobRevisions).where(eq(jobRevisions.jobId, jobId)).orderBy(asc(jobRevisions.revision));
+    } catch (error) {
+      console.error('Database error listing job revisions:', error);
+      return [];
+    }
+  }
+
+  async getJobRevision(jobId: string, revision: number): Promise<JobRevision | undefined> {
+    try {
+      const [found] = await this.db
+        .select()
+        .from(jobRevisions)
+        .where(and(eq(jobRevisions.jobId, jobId), eq(jobRevisions.revision, revision)));
+      return found;
+    } catch (error) {
+      console.error('Database error getting job revision:', error);
+      return undefined;
+    }
+  }
+
+  async createLlmUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    try {
+      const [usage] = await this.db.insert(llmUsage).values(insertUsage).returning();
+      return usage;
+    } catch (error) {
+      console.error('Database error recording LLM usage:', error);
+      throw error;
+    }
+  }
+
+  async listLlmUsage(filter: LlmUsageFilter = {}): Promise<LlmUsage[]> {
+    try {
+      const conditions = [];
+      if (filter.since) conditions.push(gte(llmUsage.createdAt, filter.since));
+      if (filter.jobId) conditions.push(eq(llmUsage.jobId, filter.jobId));
+      if (filter.requestId) conditions.push(eq(llmUsage.requestId, filter.requestId));
+      if (filter.clientId) conditions.push(eq(llmUsage.clientId, filter.clientId));
+      return await this.db.select().from(llmUsage).where(and(...conditions)).orderBy(llmUsage.createdAt);
+    } catch (error) {
+      console.error('Database error listing LLM usage:', error);
+      return [];
+    }
+  }
+
+  async getCachedResponse(key: string): Promise<LlmCacheEntry | undefined> {
+    try {
+      const [entry] = await this.db
+        .select()
+        .from(llmCache)
+        .where(and(eq(llmCache.key, key), gt(llmCache.expiresAt, new Date())));
+      return entry;
+    } catch (error) {
+      console.error('Database error reading LLM cache:', error);
+      return undefined;
+    }
+  }
+
+  async putCachedResponse(entry: InsertLlmCacheEntry): Promise<void> {
+    try {
+      await this.db
+        .insert(llmCache)
+        .values(entry)
+        .onConflictDoUpdate({
+          target: llmCache.key,
+          set: { response: entry.response, expiresAt: entry.expiresAt, createdAt: new Date() }
+        });
+    } catch (error) {
+      console.error('Database error writing LLM cache:', error);
+      throw error;
+    }
+  }
+
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    try {
+      // The tsvector expressions match the indexes in shared/schema.ts
+      const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+      const contentVector = sql`to_tsvector('english', ${documents.content})`;
+      const inputVector = sql`to_tsvector('english', ${rewriteJobs.inputText})`;
+      const outputVector = sql`to_tsvector('english', coalesce(${rewriteJobs.outputText}, ''))`;
+      const documentRank = sql<number>`ts_rank(${contentVector}, ${tsquery})`;
+      const jobRank = sql<number>`ts_rank(${inputVector} || ${outputVector}, ${tsquery})`;
+      const inOutput = sql<boolean>`${outputVector} @@ ${tsquery}`;
+
+      const [documentRows, jobRows] = await Promise.all([
+        this.db
+          .select({
+            id: documents.id,
+            title: documents.filename,
+            createdAt: documents.createdAt,
+            rank: documentRank,
+            snippet: sql<string>`ts_headline('english', ${documents.content}, ${tsquery}, ${HEADLINE_OPTIONS})`
+          })
+          .from(documents)
+          .where(sql`${contentVector} @@ ${tsquery}`)
+          .orderBy(desc(documentRank))
+          .limit(limit),
+        this.db
+          .select({
+            id: rewriteJobs.id,
+            start: sql<string>`left(${rewriteJobs.inputText}, 200)`,
+            createdAt: rewriteJobs.createdAt,
+            rank: jobRank,
+            inOutput,
+            // From the output when it matches, otherwise the input
+            snippet: sql<string>`ts_headline('english', case when ${inOutput} then ${rewriteJobs.outputText} else ${rewriteJobs.inputText} end, ${tsquery}, ${HEADLINE_OPTIONS})`
+          })
+          .from(rewriteJobs)
+          .where(sql`${inputVector} @@ ${tsquery} or ${inOutput}`)
+          .orderBy(desc(jobRank))
+          .limit(limit)
+      ]);
+
+      const hits: SearchHit[] = [
+        ...documentRows.map(row => ({
+          kind: 'document' as const,
+          id: row.id,
+          title: row.title,
+          field: 'content' as const,
+          snippet: parseHighlightedSnippet(row.snippet),
+          rank: Number(row.rank),
+          createdAt: row.createdAt
+        })),
+        ...jobRows.map(row => ({
+          kind: 'job' as const,
+          id: row.id,
+          title: titleFromText(row.start),
+          field: row.inOutput ? 'output' as const : 'input' as const,
+          snippet: parseHighlightedSnippet(row.snippet),
+          rank: Number(row.rank),
+          createdAt: row.createdAt
+        }))
+      ];
+      return hits.sort((a, b) => b.rank - a.rank).slice(0, limit);
+    } catch (error) {
+      console.error('Database error searching:', error);
+      throw error;
+    }
+  }
+
+  async listPromptTemplates(): Promise<PromptTemplate[]> {
+    try {
+      return await this.db.select().from(promptTemplates).orderBy(promptTemplates.name, promptTemplates.version);
+    } catch (error) {
+      console.error('Database error listing prompt templates:', error);
+      return [];
+    }
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    try {
+      const [created] = await this.db.insert(promptTemplates).values(template).returning();
+      return created;
+    } catch (error) {
+      console.error('Database error creating prompt template:', error);
+      throw error;
+    }
+  }
 }
 
+const REWRITE_JOB_DEFAULTS: Omit<RewriteJob, 'id' | 'inputText' | 'provider' | 'createdAt' | 'updatedAt'> = {
+  styleText: null,
+  contentMixText: null,
+  customInstructions: null,
+  selectedPresets: null,
+  chunks: null,
+  selectedChunkIds: null,
+  mixingMode: null,
+  outputText: null,
+  inputAiScore: null,
+  outputAiScore: null,
+  status: 'queued',
+  mode: 'rewrite',
+  options: null,
+  totalChunks: null,
+  completedChunks: 0,
+  error: null,
+  providers: null,
+  promptVersions: null,
+  clientId: null,
+};
+
+// Usage records are kept as far back as the usage summary reaches, and no
+// more than this many of them
+const USAGE_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+const MAX_USAGE_RECORDS = 100000;
+// Cached responses beyond this many push out the oldest ones
+const MAX_CACHE_ENTRIES = 2000;
+
+// Keeps everything in memory, for running without Postgres. Records get the
+// same defaults the database columns have. LLM usage and cached responses
+// are pruned so they don't grow without limit.
 export class MemStorage implements IStorage {
-  private documents: Map<string, Document>;
-  private rewriteJobs: Map<string, RewriteJob>;
+  protected documents: Map<string, Document>;
+  protected rewriteJobs: Map<string, RewriteJob>;
+  protected jobRevisions: JobRevision[];
+  protected llmUsage: LlmUsage[];
+  protected llmCache: Map<string, LlmCacheEntry>;
+  protected promptTemplates: PromptTemplate[];
 
   constructor() {
     this.documents = new Map();
     this.rewriteJobs = new Map();
+    this.jobRevisions = [];
+    this.llmUsage = [];
+    this.llmCache = new Map();
+    this.promptTemplates = [];
   }
 
+  // Called after every change, for subclasses that save the data somewhere
+  protected changed(): void {}
+
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
     const id = randomUUID();
+    const now = new Date();
     const document: Document = {
+      aiScore: null,
+      source: 'upload',
       ...insertDocument,
       id,
-      createdAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
     };
     this.documents.set(id, document);
+    this.changed();
     return document;
   }
 
@@ -129,14 +547,39 @@ export class MemStorage implements IStorage {
     return this.documents.get(id);
   }
 
+  async listDocuments(): Promise<Document[]> {
+    return Array.from(this.documents.values()).sort(
+      (a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
+    );
+  }
+
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    const existing = this.documents.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.documents.set(id, updated);
+    this.changed();
+    return updated;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = this.documents.delete(id);
+    if (deleted) this.changed();
+    return deleted;
+  }
+
   async createRewriteJob(insertJob: InsertRewriteJob): Promise<RewriteJob> {
     const id = randomUUID();
+    const now = new Date();
     const job: RewriteJob = {
+      ...REWRITE_JOB_DEFAULTS,
+      updatedAt: now,
       ...insertJob,
       id,
-      createdAt: new Date(),
+      createdAt: now,
     };
     this.rewriteJobs.set(id, job);
+    this.changed();
     return job;
   }
 
@@ -152,6 +595,7 @@ export class MemStorage implements IStorage {
     
     const updatedJob = { ...existingJob, ...updates };
     this.rewriteJobs.set(id, updatedJob);
+    this.changed();
     return updatedJob;
   }
 
@@ -160,6 +604,354 @@ export class MemStorage implements IStorage {
       (a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0)
     );
   }
+
+  async listJobSummaries(filter: JobListFilter): Promise<JobSummary[]> {
+    const query = filter.query ? parseQuery(filter.query) : null;
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+    const after = filter.after;
+
+    return Array.from(this.rewriteJobs.values())
+      .filter(job => {
+        const created = job.createdAt?.getTime() || 0;
+        return (!filter.statuses?.length || filter.statuses.includes(job.status)) &&
+          (!filter.provider || job.provider === filter.provider) &&
+          (!filter.mode || job.mode === filter.mode) &&
+          (from === undefined || created >= from) &&
+          (to === undefined || created <= to) &&
+          (!after || isNewerJob(after, job)) &&
+          (!query || matchText(job.inputText, query) !== null || (job.outputText !== null && matchText(job.outputText, query) !== null));
+      })
+      .sort((a, b) => (isNewerJob(a, b) ? -1 : 1))
+      .slice(0, filter.limit)
+      .map(({ inputText, outputText, ...job }) => ({
+        id: job.id,
+        mode: job.mode,
+        status: job.status,
+        provider: job.provider,
+        providers: job.providers,
+        totalChunks: job.totalChunks,
+        completedChunks: job.completedChunks,
+        error: job.error,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        title: titleFromText(inputText),
+        inputLength: inputText.length,
+        outputLength: outputText?.length ?? null
+      }));
+  }
+
+  async saveJobRevision(revision: InsertJobRevision): Promise<JobRevision> {
+    const saved: JobRevision = {
+      styleText: null,
+      selectedPresets: null,
+      customInstructions: null,
+      providers: null,
+      promptVersions: null,
+      ...revision,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.jobRevisions = this.jobRevisions
+      .filter(r => !(r.jobId === revision.jobId && r.revision === revision.revision))
+      .concat(saved);
+    this.changed();
+    return saved;
+  }
+
+  async listJobRevisions(jobId: string): Promise<JobRevision[]> {
+    return this.jobRevisions
+      .filter(r => r.jobId === jobId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async getJobRevision(jobId: string, revision: number): Promise<JobRevision | undefined> {
+    return this.jobRevisions.find(r => r.jobId === jobId && r.revision === revision);
+  }
+
+  async createLlmUsage(insertUsage: InsertLlmUsage): Promise<LlmUsage> {
+    const usage: LlmUsage = {
+      jobId: null,
+      requestId: null,
+      clientId: null,
+      operation: null,
+      tokensEstimated: false,
+      estimatedCost: null,
+      ...insertUsage,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.llmUsage.push(usage);
+    this.pruneUsage();
+    this.changed();
+    return usage;
+  }
+
+  // Records are added in time order, so the oldest are at the front
+  protected pruneUsage(): void {
+    const cutoff = Date.now() - USAGE_RETENTION_MS;
+    let expired = 0;
+    while (expired < this.llmUsage.length && (this.llmUsage[expired].createdAt?.getTime() || 0) < cutoff) expired++;
+    const drop = Math.max(expired, this.llmUsage.length - MAX_USAGE_RECORDS);
+    if (drop > 0) this.llmUsage = this.llmUsage.slice(drop);
+  }
+
+  async listLlmUsage(filter: LlmUsageFilter = {}): Promise<LlmUsage[]> {
+    return this.llmUsage.filter(usage =>
+      (!filter.since || (usage.createdAt?.getTime() || 0) >= filter.since.getTime()) &&
+      (!filter.jobId || usage.jobId === filter.jobId) &&
+      (!filter.requestId || usage.requestId === filter.requestId) &&
+      (!filter.clientId || usage.clientId === filter.clientId)
+    );
+  }
+
+  async getCachedResponse(key: string): Promise<LlmCacheEntry | undefined> {
+    const entry = this.llmCache.get(key);
+    if (entry && entry.expiresAt.getTime() <= Date.now()) {
+      this.llmCache.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async putCachedResponse(entry: InsertLlmCacheEntry): Promise<void> {
+    // Re-added at the end, so the map stays oldest first
+    this.llmCache.delete(entry.key);
+    this.llmCache.set(entry.key, { ...entry, createdAt: new Date() });
+    this.pruneCache();
+    this.changed();
+  }
+
+  // Drops expired entries once the cache is full, then the oldest
+  protected pruneCache(): void {
+    if (this.llmCache.size <= MAX_CACHE_ENTRIES) return;
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.llmCache.entries())) {
+      if (entry.expiresAt.getTime() <= now) this.llmCache.delete(key);
+    }
+    for (const key of Array.from(this.llmCache.keys())) {
+      if (this.llmCache.size <= MAX_CACHE_ENTRIES) break;
+      this.llmCache.delete(key);
+    }
+  }
+
+  // Every word of the query must start a word of the text; hits are ranked
+  // by how often the words occur
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const parsed = parseQuery(query);
+    const hits: SearchHit[] = [];
+
+    for (const document of Array.from(this.documents.values())) {
+      const ranges = matchText(document.content, parsed);
+      if (!ranges) continue;
+      hits.push({
+        kind: 'document',
+        id: document.id,
+        title: document.filename,
+        field: 'content',
+        snippet: buildSnippet(document.content, ranges),
+        rank: ranges.length,
+        createdAt: document.createdAt
+      });
+    }
+
+    for (const job of Array.from(this.rewriteJobs.values())) {
+      const outputRanges = job.outputText ? matchText(job.outputText, parsed) : null;
+      const inputRanges = matchText(job.inputText, parsed);
+      if (!outputRanges && !inputRanges) continue;
+      hits.push({
+        kind: 'job',
+        id: job.id,
+        title: titleFromText(job.inputText),
+        field: outputRanges ? 'output' : 'input',
+        snippet: outputRanges ? buildSnippet(job.outputText!, outputRanges) : buildSnippet(job.inputText, inputRanges!),
+        rank: (outputRanges?.length ?? 0) + (inputRanges?.length ?? 0),
+        createdAt: job.createdAt
+      });
+    }
+
+    return hits
+      .sort((a, b) => b.rank - a.rank || (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async listPromptTemplates(): Promise<PromptTemplate[]> {
+    return [...this.promptTemplates];
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    if (this.promptTemplates.some(t => t.name === template.name && t.version === template.version)) {
+      throw new Error(`Prompt template ${template.name} v${template.version} already exists`);
+    }
+    const created: PromptTemplate = { ...template, id: randomUUID(), createdAt: new Date() };
+    this.promptTemplates.push(created);
+    this.changed();
+    return created;
+  }
+}
+
+interface StorageFileContents {
+  documents?: Document[];
+  rewriteJobs?: RewriteJob[];
+  jobRevisions?: JobRevision[];
+  llmUsage?: LlmUsage[];
+  llmCache?: LlmCacheEntry[];
+  promptTemplates?: PromptTemplate[];
+}
+
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'expiresAt']);
+
+// How long after a change the file is written, so a burst of changes (e.g.
+// chunk checkpoints) is written once
+const SAVE_DELAY_MS = 500;
+
+// Exit codes for the signals the server is stopped with, as the shell reports them
+const STOP_SIGNALS = { SIGINT: 130, SIGTERM: 143 } as const;
+
+// MemStorage that keeps its data in a JSON file across restarts. The file is
+// read once at startup and rewritten shortly after each change, without
+// blocking on the disk, and when the process exits or is stopped.
+export class JsonFileStorage extends MemStorage {
+  private saveTimer: NodeJS.Timeout | null = null;
+  // The save in progress, and whether anything changed that it hasn't written
+  private saving: Promise<void> | null = null;
+  private unsaved = false;
+
+  constructor(private file: string) {
+    super();
+    this.load();
+    process.on('exit', () => this.flush());
+    // Node exits on these without running 'exit' handlers, so the last
+    // changes are written before exiting here
+    for (const [signal, code] of Object.entries(STOP_SIGNALS)) {
+      process.once(signal, () => {
+        this.flush();
+        process.exit(code);
+      });
+    }
+  }
+
+  // Writes what no save has finished writing yet, synchronously
+  flush(): void {
+    if (this.unsaved || this.saving) this.saveNow();
+  }
+
+  private load(): void {
+    let contents: StorageFileContents;
+    try {
+      contents = JSON.parse(readFileSync(this.file, 'utf-8'), (key, value) =>
+        DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+      );
+    } catch (error: any) {
+      // A new file is created on the first change
+      if (error?.code === 'ENOENT') return;
+      throw new Error(`Could not read storage file ${this.file}: ${error?.message}`);
+    }
+
+    const now = Date.now();
+    this.documents = new Map((contents.documents ?? []).map(document => [document.id, document]));
+    this.rewriteJobs = new Map((contents.rewriteJobs ?? []).map(job => [job.id, job]));
+    this.jobRevisions = contents.jobRevisions ?? [];
+    this.llmUsage = contents.llmUsage ?? [];
+    this.llmCache = new Map(
+      (contents.llmCache ?? []).filter(entry => entry.expiresAt.getTime() > now).map(entry => [entry.key, entry])
+    );
+    this.promptTemplates = contents.promptTemplates ?? [];
+    this.pruneUsage();
+    this.pruneCache();
+  }
+
+  protected changed(): void {
+    this.unsaved = true;
+    // A save in progress writes the change when it's done
+    if (this.saveTimer || this.saving) return;
+    this.saveTimer = setTimeout(() => void this.save(), SAVE_DELAY_MS);
+  }
+
+  private contents(): string {
+    const contents: StorageFileContents = {
+      documents: Array.from(this.documents.values()),
+      rewriteJobs: Array.from(this.rewriteJobs.values()),
+      jobRevisions: this.jobRevisions,
+      llmUsage: this.llmUsage,
+      llmCache: Array.from(this.llmCache.values()),
+      promptTemplates: this.promptTemplates,
+    };
+    return JSON.stringify(contents);
+  }
+
+  // Writes a temporary file, flushes it to disk and renames it over the old
+  // one, so a crash at any point leaves either the old file or the new one.
+  // Saves run one at a time; changes made during a save are written by
+  // another one straight after.
+  save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.saving) return this.saving;
+
+    this.saving = (async () => {
+      while (this.unsaved) {
+        this.unsaved = false;
+        const temp = `${this.file}.tmp`;
+        try {
+          await mkdir(path.dirname(this.file), { recursive: true });
+          const handle = await open(temp, 'w');
+          try {
+            await handle.writeFile(this.contents());
+            await handle.sync();
+          } finally {
+            await handle.close();
+          }
+          await rename(temp, this.file);
+        } catch (error) {
+          // Left for the next change to try again
+          this.unsaved = true;
+          console.error(`Failed to write storage file ${this.file}:`, error);
+          break;
+        }
+      }
+    })().finally(() => {
+      this.saving = null;
+    });
+    return this.saving;
+  }
+
+  // The same write, synchronously, for when the process is exiting and
+  // can't wait for a save
+  private saveNow(): void {
+    try {
+      const temp = `${this.file}.tmp`;
+      mkdirSync(path.dirname(this.file), { recursive: true });
+      const fd = openSync(temp, 'w');
+      try {
+        writeFileSync(fd, this.contents());
+        fsyncSync(fd);
+      } finally {
+        closeSync(fd);
+      }
+      renameSync(temp, this.file);
+      this.unsaved = false;
+    } catch (error) {
+      console.error(`Failed to write storage file ${this.file}:`, error);
+    }
+  }
+}
+
+// Postgres when DATABASE_URL is set; otherwise a JSON file when STORAGE_FILE
+// is set, or memory only
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DatabaseStorage(connectDatabase(process.env.DATABASE_URL));
+  }
+  if (process.env.STORAGE_FILE) {
+    const file = path.resolve(process.env.STORAGE_FILE);
+    console.log(`DATABASE_URL is not set; storing data in ${file}`);
+    return new JsonFileStorage(file);
+  }
+  console.log('DATABASE_URL is not set; storing data in memory, so it is lost on restart');
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -18,10 +18,3 @@ export function removeDollarSigns(text: string): string {
   
   return text;
 }
-
-/**
- * Enhanced system prompt that instructs LLMs to never generate dollar signs
- */
-export function getDollarSignFreePrompt(): string {
-  return `CRITICAL FORMATTING RULE: NEVER use dollar signs ($) in your response. Instead of writing "$15" write "15 dollars". Instead of "$N" write "N dollars". This prevents serious formatting issues. Always convert monetary amounts to the "X dollars" format.`;
-}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MemStorage } from '../storage';
+import { jobListQuerySchema, listJobPage } from './job-list';
+
+// Jobs created at the given times, in that order
+async function storageWithJobs(times: string[]) {
+  const storage = new MemStorage();
+  const ids: string[] = [];
+  for (const time of times) {
+    const job = await storage.createRewriteJob({ inputText: `Job from ${time}`, provider: 'mock' });
+    await storage.updateRewriteJob(job.id, { createdAt: new Date(time) });
+    ids.push(job.id);
+  }
+  return { storage, ids };
+}
+
+function list(storage: MemStorage, query: Record<string, string>) {
+  return listJobPage(storage, jobListQuerySchema.parse(query));
+}
+
+describe('listJobPage', () => {
+  it('pages through every job once, newest first, ties broken by id', async () => {
+    const times = ['2026-01-01T10:00:00Z', '2026-01-02T10:00:00Z', '2026-01-02T10:00:00Z', '2026-01-02T10:00:00Z', '2026-01-03T10:00:00Z'];
+    const { storage } = await storageWithJobs(times);
+    const expected = (await storage.listJobSummaries({ limit: 100 })).map(job => job.id);
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await list(storage, { limit: '2', ...(cursor ? { cursor } : {}) });
+      seen.push(...page.jobs.map(job => job.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen).toEqual(expected);
+    expect(new Set(seen).size).toBe(times.length);
+    const tied = (await storage.listJobSummaries({ limit: 100 })).slice(1, 4).map(job => job.id);
+    expect(tied).toEqual([...tied].sort().reverse());
+  });
+
+  it('does not shift later pages when a job is added', async () => {
+    const { storage } = await storageWithJobs(['2026-01-01T10:00:00Z', '2026-01-02T10:00:00Z', '2026-01-03T10:00:00Z']);
+    const first = await list(storage, { limit: '2' });
+    await storage.createRewriteJob({ inputText: 'A new job', provider: 'mock' });
+    const second = await list(storage, { limit: '2', cursor: first.nextCursor! });
+    expect(second.jobs.map(job => job.title)).toEqual(['Job from 2026-01-01T10:00:00Z']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('takes in the whole of the `to` day', async () => {
+    const { storage } = await storageWithJobs(['2026-01-01T10:00:00Z', '2026-01-02T00:00:00Z', '2026-01-02T23:59:59Z', '2026-01-03T00:00:00Z']);
+    const day = await list(storage, { from: '2026-01-02', to: '2026-01-02' });
+    expect(day.jobs.map(job => job.title)).toEqual(['Job from 2026-01-02T23:59:59Z', 'Job from 2026-01-02T00:00:00Z']);
+    const upTo = await list(storage, { to: '2026-01-02T00:00:00Z' });
+    expect(upTo.jobs).toHaveLength(2);
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    expect(jobListQuerySchema.safeParse({ cursor: 'not-a-cursor' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { jobModes, jobStatuses } from "@shared/schema";
+import type { IStorage, JobSummary } from "../storage";
+
+// Job listings, newest first and a page at a time. A page cursor is the last
+// listed job's createdAt and id, base64url encoded, so jobs added while
+// someone pages through don't shift the pages.
+
+export function encodeJobCursor(job: { createdAt: Date | null; id: string }): string {
+  return Buffer.from(`${job.createdAt?.toISOString() ?? ''}|${job.id}`).toString('base64url');
+}
+
+const jobCursor = z.string().transform((cursor, ctx) => {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const date = new Date(createdAt);
+  if (!id || isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+    return z.NEVER;
+  }
+  return { createdAt: date, id };
+});
+
+// A day on its own runs to the end of that day (UTC), so `to` takes it in
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const jobListQuerySchema = z.object({
+  // One status or several, comma-separated
+  status: z.string().optional()
+    .transform(status => status ? status.split(',').map(s => s.trim()).filter(Boolean) : undefined)
+    .pipe(z.array(z.enum(jobStatuses)).optional()),
+  provider: z.string().trim().min(1).optional(),
+  mode: z.enum(jobModes).optional(),
+  from: z.coerce.date().optional(),
+  // Inclusive
+  to: z.string().transform(to => DAY.test(to) ? `${to}T23:59:59.999Z` : to).pipe(z.coerce.date()).optional(),
+  q: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: jobCursor.optional()
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+export interface JobListPage {
+  jobs: JobSummary[];
+  // Pass back as ?cursor= for the next page; null on the last one
+  nextCursor: string | null;
+}
+
+export async function listJobPage(storage: IStorage, query: JobListQuery): Promise<JobListPage> {
+  const { status, provider, mode, from, to, q, limit, cursor } = query;
+  // One more than asked for tells whether there is another page
+  const jobs = await storage.listJobSummaries({
+    statuses: status, provider, mode, from, to, query: q, after: cursor, limit: limit + 1
+  });
+  const hasMore = jobs.length > limit;
+  const page = jobs.slice(0, limit);
+  return {
+    jobs: page,
+    nextCursor: hasMore ? encodeJobCursor(page[page.length - 1]) : null
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { protectMathFormulas, restoreMathFormulas, restoreMathInStream } from './math-formula-protection';
+
+// Streams the text in pieces of the given size and returns what comes out
+function streamed(text: string, mathBlocks: Map<string, string>, size: number): string[] {
+  const tokens: string[] = [];
+  const stream = restoreMathInStream(token => tokens.push(token), mathBlocks);
+  for (let i = 0; i < text.length; i += size) stream.onToken(text.slice(i, i + size));
+  stream.flush();
+  return tokens;
+}
+
+describe('restoreMathInStream', () => {
+  const { processedText, mathBlocks } = protectMathFormulas('Since \\(a^2\\) grows, $$x = y$$ holds for __init__ too.');
+
+  it('streams the same text as the restored result, however the tokens split', () => {
+    const final = restoreMathFormulas(processedText, mathBlocks);
+    for (let size = 1; size <= processedText.length; size++) {
+      const tokens = streamed(processedText, mathBlocks, size);
+      expect(tokens.join('')).toBe(final);
+      expect(tokens.some(token => token.includes('__MATH'))).toBe(false);
+    }
+  });
+
+  it('holds back only what could be the start of a placeholder', () => {
+    expect(streamed('a__MATH_BL', mathBlocks, 1)).toEqual(['a', '__MATH_BL']);
+    expect(streamed('ends in _', mathBlocks, 8)).toEqual(['ends in ', '_']);
+    expect(streamed('snake_case words', mathBlocks, 4)).toEqual(['snak', 'e_ca', 'se w', 'ords']);
+  });
+
+  it('passes tokens straight through when nothing was protected', () => {
+    expect(streamed('__MATH_BLOCK_000__', new Map(), 5)).toEqual(['__MAT', 'H_BLO', 'CK_00', '0__']);
+  });
+});
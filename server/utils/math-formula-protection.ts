@@ -78,6 +78,41 @@ export function restoreMathFormulas(text: string, mathBlocks: Map<string, string
   return restoredText;
 }
 
+// Text that could still grow into a placeholder token such as __MATH_BLOCK_007__
+const PARTIAL_TOKEN = /^_(_(M(A(T(H(_(B(L(O(C(K(_(\d+(_(_)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?$/;
+const MAX_TOKEN_LENGTH = 24;
+
+/**
+ * Wraps a streaming token handler so placeholder tokens in the model's output
+ * are restored before the text is passed on, and the stream matches the
+ * final text. Text that may be the start of a placeholder is held back until
+ * it is complete; call flush() when the stream ends to pass on the rest.
+ */
+export function restoreMathInStream(
+  onToken: (token: string) => void,
+  mathBlocks: Map<string, string>
+): { onToken: (token: string) => void; flush: () => void } {
+  if (mathBlocks.size === 0) return { onToken, flush: () => {} };
+
+  let pending = '';
+  return {
+    onToken: (token) => {
+      pending = restoreMathFormulas(pending + token, mathBlocks);
+      let held = pending.length;
+      for (let i = pending.length - 1; i >= Math.max(0, pending.length - MAX_TOKEN_LENGTH); i--) {
+        if (pending[i] === '_' && PARTIAL_TOKEN.test(pending.slice(i))) held = i;
+      }
+      const ready = pending.slice(0, held);
+      pending = pending.slice(held);
+      if (ready) onToken(ready);
+    },
+    flush: () => {
+      if (pending) onToken(pending);
+      pending = '';
+    }
+  };
+}
+
 /**
  * Splits text into semantic blocks for block-level processing
  * Preserves paragraph structure, lists, and headings
@@ -0,0 +1,135 @@
+// Full-text search over saved documents and rewrite jobs. Postgres matches
+// with tsvector and marks the hits in its snippets (DatabaseStorage); the
+// in-memory stores use the plain matching below. Either way a hit comes back
+// with a snippet split into highlighted and plain parts.
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  kind: 'document' | 'job';
+  id: string;
+  // A document's filename, or the start of a job's input
+  title: string;
+  // The text the snippet comes from: a document's content, or a job's input or output
+  field: 'content' | 'input' | 'output';
+  snippet: SnippetPart[];
+  // Higher is a better match; only comparable within one search
+  rank: number;
+  createdAt: Date | null;
+}
+
+// Put around each hit by ts_headline; control characters, so they don't
+// clash with anything in a document
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+// ts_headline options: up to two fragments of about 15-35 words
+export const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const SNIPPET_CONTEXT_CHARS = 80;
+const SNIPPET_LENGTH_CHARS = 240;
+const TITLE_LENGTH = 80;
+
+// Letters and digits in any script; built at runtime because the `u` flag
+// needs a newer compile target than the server's
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Splits a ts_headline snippet at its highlight markers
+export function parseHighlightedSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let match = false;
+  for (const piece of snippet.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`))) {
+    if (piece) parts.push({ text: piece, match });
+    match = !match;
+  }
+  return parts;
+}
+
+// The first line of a text, shortened, to name a job in the results
+export function titleFromText(text: string): string {
+  const line = text.trim().split('\n')[0].trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH).trimEnd()}…` : line;
+}
+
+// The words of a query, lowercased. As in Postgres' websearch syntax a word
+// with a leading "-" must not appear; quotes and "or" are ignored, so every
+// other word must appear.
+export function parseQuery(query: string): { include: string[]; exclude: string[] } {
+  const include = new Set<string>();
+  const exclude = new Set<string>();
+  const word = new RegExp(`${WORD_CHAR}+`, 'gu');
+  for (const token of query.toLowerCase().split(/\s+/)) {
+    const negated = token.startsWith('-');
+    for (const [match] of Array.from(token.matchAll(word))) {
+      if (negated) {
+        exclude.add(match);
+      } else if (match !== 'or') {
+        include.add(match);
+      }
+    }
+  }
+  return { include: Array.from(include), exclude: Array.from(exclude) };
+}
+
+// Where words starting with any of the terms occur, so "rewrite" also finds
+// "rewrites"
+function findTerms(text: string, terms: string[]): Range[] {
+  if (terms.length === 0) return [];
+  const pattern = new RegExp(`(?<!${WORD_CHAR})(${terms.map(escapeRegExp).join('|')})${WORD_CHAR}*`, 'giu');
+  return Array.from(text.matchAll(pattern)).map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+// Matches a text against a parsed query. Returns the ranges of the hits, or
+// null when the text doesn't match.
+export function matchText(text: string, query: { include: string[]; exclude: string[] }): Range[] | null {
+  if (query.include.length === 0) return null;
+  if (findTerms(text, query.exclude).length > 0) return null;
+  const ranges = findTerms(text, query.include);
+  const found = new Set(ranges.map(range => text.slice(range.start, range.end).toLowerCase()));
+  const hasAll = query.include.every(term => Array.from(found).some(word => word.startsWith(term)));
+  return hasAll ? ranges : null;
+}
+
+// A stretch of text around the first hit with the hits in it highlighted
+export function buildSnippet(text: string, ranges: Range[]): SnippetPart[] {
+  const first = ranges[0]?.start ?? 0;
+  let start = Math.max(0, first - SNIPPET_CONTEXT_CHARS);
+  let end = Math.min(text.length, start + SNIPPET_LENGTH_CHARS);
+  // Don't cut words at either end
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  let position = start;
+  for (const range of ranges) {
+    if (range.start < position || range.end > end) continue;
+    if (range.start > position) parts.push({ text: text.slice(position, range.start), match: false });
+    parts.push({ text: text.slice(range.start, range.end), match: true });
+    position = range.end;
+  }
+  if (position < end) parts.push({ text: text.slice(position, end), match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+}
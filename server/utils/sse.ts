@@ -0,0 +1,58 @@
+import type { Response } from 'express';
+import type { ChunkProgress } from '../llm/provider';
+
+/**
+ * Server-Sent Events writer for streaming endpoints.
+ *
+ * Events sent:
+ *   token    - { text } one delta of the completion; a large document is
+ *              processed a few chunks at a time, so its text comes a whole
+ *              chunk at a time, in order
+ *   progress - { chunkIndex, completed, totalChunks, failed } a chunk of a
+ *              large document is done
+ *   done     - { result, ... } the final post-processed output, which
+ *              replaces the streamed text (providers strip dollar signs,
+ *              restore protected math, etc. only once the completion is
+ *              complete), plus the same metadata as the non-streaming
+ *              endpoint: failed sections, the provider that answered and
+ *              cache hits
+ *   error    - { error } the request failed after the stream was opened
+ *
+ * A background job's event stream sends `job` with the whole job each time
+ * it changes, and `done` with the job once it has finished.
+ */
+export function openEventStream(res: Response) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // The client may go away mid-stream; stop writing once it does
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  return {
+    token: (text: string) => send('token', { text }),
+    // The chunk's text arrives as tokens, so it isn't sent again here
+    progress: ({ result: _result, ...progress }: ChunkProgress) => send('progress', progress),
+    job: (job: unknown) => send('job', job),
+    done: (data: Record<string, unknown>) => {
+      send('done', data);
+      res.end();
+    },
+    error: (message: string) => {
+      send('error', { error: message });
+      res.end();
+    }
+  };
+}
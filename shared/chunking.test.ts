@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { chunkDocument, chunkTexts, countWords, findMath, type ChunkOptions } from './chunking';
+
+// Documents made of the pieces the chunker has to handle: words (some
+// long, some outside the BMP), every kind of break, headings and math
+const word = fc.oneof(
+  fc.constantFrom('a', 'the', 'graph', 'node’s', 'end.', 'why?', '"quoted."', 'x=1', '😀emoji', 'supercalifragilistic'),
+  fc.stringMatching(/^[a-z]{1,12}$/)
+);
+const gap = fc.constantFrom(' ', ' ', ' ', '  ', '\n', '\n\n', '\n \n', '\t');
+const heading = fc.constantFrom('# Introduction\n', '## Part two\n', '\\section{Proof}\n', 'Chapter 3\n');
+const math = fc.constantFrom('$x$', '$a + b$', '$$\nE=mc^2\n$$', '\\[ a = b \\]', '\\(y\\)', '\\begin{align}x &= y \\\\ z &= w\\end{align}');
+const document = fc.array(fc.oneof(
+  { arbitrary: word, weight: 6 },
+  { arbitrary: gap, weight: 5 },
+  { arbitrary: heading, weight: 1 },
+  { arbitrary: math, weight: 1 }
+), { maxLength: 80 }).map(parts => parts.join(''));
+
+const measures: Record<string, ChunkOptions['measure']> = {
+  words: countWords,
+  // Small units, so single words are often larger than the limit
+  characters: (text: string) => text.length,
+};
+
+function cutsOf(text: string, options: ChunkOptions) {
+  return chunkDocument(text, options).slice(1).map(chunk => chunk.start);
+}
+
+describe.each(Object.entries(measures))('chunkDocument measured in %s', (_name, measure) => {
+  const maxSize = fc.integer({ min: 1, max: 12 });
+
+  it('gives back the input exactly when the chunks are joined', () => {
+    fc.assert(fc.property(document, maxSize, (text, size) => {
+      const chunks = chunkDocument(text, { maxSize: size, measure });
+      expect(chunks.map(chunk => chunk.text).join('')).toBe(text);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.index).toBe(index);
+        expect(chunk.text).toBe(text.slice(chunk.start, chunk.end));
+        expect(chunk.text.length).toBeGreaterThan(0);
+      });
+    }), { numRuns: 1000 });
+  });
+
+  it('puts every word in exactly one chunk unless the word alone is too large', () => {
+    fc.assert(fc.property(document, maxSize, (text, size) => {
+      const cuts = cutsOf(text, { maxSize: size, measure });
+      for (const match of Array.from(text.matchAll(/\S+/g))) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        const inside = cuts.filter(cut => cut > start && cut < end);
+        if (inside.length > 0) {
+          expect(measure!(match[0]), `"${match[0]}" was cut`).toBeGreaterThan(size);
+        }
+      }
+    }), { numRuns: 1000 });
+  });
+
+  it('never cuts math, or between the halves of a surrogate pair', () => {
+    fc.assert(fc.property(document, maxSize, (text, size) => {
+      const cuts = cutsOf(text, { maxSize: size, measure });
+      for (const range of findMath(text)) {
+        expect(cuts.filter(cut => cut > range.start && cut < range.end)).toEqual([]);
+      }
+      for (const cut of cuts) {
+        const code = text.charCodeAt(cut);
+        expect(code >= 0xdc00 && code <= 0xdfff).toBe(false);
+      }
+    }), { numRuns: 1000 });
+  });
+
+  it('keeps chunks within the limit unless they hold math, or a word and its following space too large on their own', () => {
+    fc.assert(fc.property(document, maxSize, (text, size) => {
+      const math = findMath(text);
+      for (const chunk of chunkDocument(text, { maxSize: size, measure })) {
+        if (measure!(chunk.text) <= size) continue;
+        const holdsMath = math.some(range => range.start < chunk.end && range.end > chunk.start);
+        const holdsLargePiece = (chunk.text.match(/\S+\s*|\s+/g) ?? []).some(piece => measure!(piece) > size);
+        expect(holdsMath || holdsLargePiece, JSON.stringify(chunk.text)).toBe(true);
+      }
+    }), { numRuns: 1000 });
+  });
+});
+
+describe('chunkDocument', () => {
+  it('keeps a word next to a math block whole', () => {
+    const chunks = chunkDocument('word$$\nE=mc^2\n$$ ', { maxSize: 2 });
+    expect(chunks.map(chunk => chunk.text)).toEqual(['word$$\nE=mc^2\n$$ ']);
+  });
+
+  it('cuts at the coarsest boundary that fits', () => {
+    const text = 'One two three.\n\nFour five six. Seven eight.';
+    expect(chunkTexts(text, { maxSize: 3 })).toEqual(['One two three.', 'Four five six.', 'Seven eight.']);
+  });
+
+  it('starts a new chunk at a heading', () => {
+    const text = 'Intro words here.\n\n# Next\n\nBody text.';
+    expect(chunkTexts(text, { maxSize: 5 })).toEqual(['Intro words here.', '# Next\n\nBody text.']);
+  });
+
+  it('carries overlap from the end of the previous chunk', () => {
+    const chunks = chunkDocument('First sentence here. Second one now. Third.', { maxSize: 3, overlapWords: 3 });
+    expect(chunks.map(chunk => chunk.text)).toEqual(['First sentence here. ', 'Second one now. ', 'Third.']);
+    expect(chunks[0].overlap).toBe('');
+    expect(chunks[2].overlap).toBe('Second one now. ');
+    expect(chunks[2].overlapStart).toBe(chunks[1].start);
+  });
+});
@@ -0,0 +1,246 @@
+// Splits documents into chunks for processing, on the server and the client.
+//
+// Chunks are consecutive slices of the input: joined back together they give
+// the input exactly, so no text is ever lost or repeated, and each word is in
+// exactly one chunk. Cuts are made at the coarsest boundary that keeps a chunk
+// within the size limit - blocks (paragraphs, headings, lists), then lines,
+// then sentences, then words. A heading starts a new chunk rather than ending
+// one, and math ($...$, $$...$$, \[...\], \(...\), \begin{env}...\end{env})
+// is never cut, so a math block larger than the limit is kept whole, along
+// with any word it touches. Only a word larger than the limit on its own is
+// cut inside.
+//
+// Sizes are measured in words unless a `measure` is given (e.g. a token
+// counter); each chunk's size is taken as the sum of its pieces' sizes.
+
+export interface ChunkOptions {
+  // Largest chunk size, in the units of `measure`
+  maxSize: number;
+  measure?: (text: string) => number;
+  // When set, each chunk carries about this many words from the end of the
+  // previous chunk in `overlap`, starting at a sentence where possible
+  overlapWords?: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  // input.slice(start, end)
+  text: string;
+  start: number;
+  end: number;
+  // Text just before the chunk, repeated from the previous chunk for
+  // context. Not part of `text`; empty without overlapWords.
+  overlap: string;
+  overlapStart: number;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// Where a piece of the next level may start, coarsest first. Each pattern
+// matches the gap before a new piece; the cut goes at the end of the match.
+const BOUNDARIES: RegExp[] = [
+  // Blank lines between blocks
+  /\n[ \t]*\n\s*/g,
+  // Line breaks, for lists, verse and code
+  /\n\s*/g,
+  // Sentence ends, including a closing quote or bracket
+  /[.!?]['"’”)\]]*\s+/g,
+  // Any whitespace
+  /\s+/g,
+];
+
+const MATH = [
+  /\$\$[\s\S]+?\$\$/g,
+  /\\\[[\s\S]+?\\\]/g,
+  /\\begin\{([A-Za-z*]+)\}[\s\S]+?\\end\{\1\}/g,
+  /\\\([\s\S]+?\\\)/g,
+  /\$[^$\n]+?\$/g,
+];
+
+const HEADING = /^(#{1,6}\s|\\(sub)*section\*?\{|(chapter|part|section)\s+[\dIVXLC]+\b)/i;
+
+const WORD = /\S+/g;
+
+export function countWords(text: string): number {
+  return text.match(WORD)?.length ?? 0;
+}
+
+// Math in the text, which chunks are never cut inside
+export function findMath(text: string): Range[] {
+  const ranges: Range[] = [];
+  for (const pattern of MATH) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Inline math inside a display block is already covered
+      if (!ranges.some(range => start < range.end && end > range.start)) {
+        ranges.push({ start, end });
+      }
+    }
+  }
+  return ranges;
+}
+
+function insideMath(position: number, math: Range[]): boolean {
+  return math.some(range => position > range.start && position < range.end);
+}
+
+function isLowSurrogate(text: string, position: number): boolean {
+  const code = text.charCodeAt(position);
+  return code >= 0xdc00 && code <= 0xdfff;
+}
+
+// Cut positions strictly inside [start, end) for one boundary level
+function findCuts(
+  text: string,
+  range: Range,
+  level: number,
+  math: Range[],
+  maxSize: number,
+  measure: (text: string) => number
+): number[] {
+  const cuts: number[] = [];
+  if (level >= BOUNDARIES.length) {
+    // Last resort: cut inside the words that are too large on their own, and
+    // only those, keeping surrogate pairs together
+    const slice = text.slice(range.start, range.end);
+    for (const match of Array.from(slice.matchAll(WORD))) {
+      if (measure(match[0]) <= maxSize) continue;
+      const start = range.start + match.index!;
+      for (let position = start + 1; position < start + match[0].length; position++) {
+        if (position < range.end && !insideMath(position, math) && !isLowSurrogate(text, position)) {
+          cuts.push(position);
+        }
+      }
+    }
+    return cuts;
+  }
+
+  const pattern = new RegExp(BOUNDARIES[level].source, 'g');
+  const slice = text.slice(range.start, range.end);
+  for (const match of Array.from(slice.matchAll(pattern))) {
+    const position = range.start + match.index! + match[0].length;
+    if (position > range.start && position < range.end && !insideMath(position, math)) {
+      cuts.push(position);
+    }
+  }
+  return cuts;
+}
+
+function isHeading(text: string): boolean {
+  const trimmed = text.trim();
+  return !trimmed.includes('\n') && HEADING.test(trimmed);
+}
+
+function splitRange(
+  text: string,
+  range: Range,
+  level: number,
+  math: Range[],
+  maxSize: number,
+  measure: (text: string) => number
+): Range[] {
+  const cuts = findCuts(text, range, level, math, maxSize, measure);
+  if (cuts.length === 0) {
+    return level > BOUNDARIES.length ? [range] : splitRange(text, range, level + 1, math, maxSize, measure);
+  }
+
+  const pieces: Range[] = [];
+  let start = range.start;
+  for (const cut of [...cuts, range.end]) {
+    pieces.push({ start, end: cut });
+    start = cut;
+  }
+
+  const chunks: Range[] = [];
+  let current: Range[] = [];
+  let currentSize = 0;
+  const flush = () => {
+    if (current.length > 0) chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+    current = [];
+    currentSize = 0;
+  };
+
+  for (const piece of pieces) {
+    const pieceText = text.slice(piece.start, piece.end);
+    const size = measure(pieceText);
+    const heading = level === 0 && isHeading(pieceText);
+
+    if (size > maxSize) {
+      flush();
+      chunks.push(...splitRange(text, piece, level + 1, math, maxSize, measure));
+      continue;
+    }
+
+    // A heading opens a chunk when the current one is already half full
+    if (heading && currentSize >= maxSize / 2) flush();
+
+    if (current.length > 0 && currentSize + size > maxSize) {
+      // Don't leave a heading at the end of a chunk, away from its section
+      const last = current[current.length - 1];
+      const carried = level === 0 && current.length > 1 && isHeading(text.slice(last.start, last.end)) ? current.pop()! : null;
+      const carriedSize = carried ? measure(text.slice(carried.start, carried.end)) : 0;
+      currentSize -= carriedSize;
+      flush();
+      if (carried && carriedSize + size <= maxSize) {
+        current.push(carried);
+        currentSize = carriedSize;
+      } else if (carried) {
+        chunks.push(carried);
+      }
+    }
+
+    current.push(piece);
+    currentSize += size;
+  }
+  flush();
+  return chunks;
+}
+
+// About `words` words from the end of text.slice(0, end), moved forward to the
+// start of a sentence if one begins in that stretch
+function overlapStartFor(text: string, chunkStart: number, end: number, words: number): number {
+  const before = text.slice(chunkStart, end);
+  const starts = Array.from(before.matchAll(WORD)).map(match => chunkStart + match.index!);
+  if (starts.length === 0) return end;
+  const start = starts[Math.max(0, starts.length - words)];
+
+  const sentence = /[.!?]['"’”)\]]*\s+(?=\S)/g;
+  sentence.lastIndex = start - chunkStart;
+  const match = sentence.exec(before);
+  return match ? chunkStart + match.index + match[0].length : start;
+}
+
+export function chunkDocument(text: string, options: ChunkOptions): DocumentChunk[] {
+  if (text.length === 0) return [];
+
+  const measure = options.measure ?? countWords;
+  const maxSize = Math.max(1, options.maxSize);
+  const math = findMath(text);
+  const ranges = measure(text) <= maxSize
+    ? [{ start: 0, end: text.length }]
+    : splitRange(text, { start: 0, end: text.length }, 0, math, maxSize, measure);
+
+  return ranges.map((range, index) => {
+    const previous = ranges[index - 1];
+    const overlapStart = previous && options.overlapWords
+      ? overlapStartFor(text, previous.start, range.start, options.overlapWords)
+      : range.start;
+    return {
+      index,
+      text: text.slice(range.start, range.end),
+      start: range.start,
+      end: range.end,
+      overlap: text.slice(overlapStart, range.start),
+      overlapStart,
+    };
+  });
+}
+
+// Chunk texts only, trimmed, for callers that send each one on its own
+export function chunkTexts(text: string, options: ChunkOptions): string[] {
+  return chunkDocument(text, options).map(chunk => chunk.text.trim()).filter(chunk => chunk.length > 0);
+}
@@ -0,0 +1,111 @@
+// Models each provider can be asked for, shared by request validation on the
+// server and the model pickers on the client. The first model listed is what
+// the picker shows as the default; when a request names no model, each
+// provider keeps using its own built-in default.
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  maxOutputTokens: number;
+  // Total tokens the model accepts per request, prompt and completion together
+  contextWindow: number;
+  // List price in USD per million tokens, used for cost estimates
+  inputCostPerMillion: number;
+  outputCostPerMillion: number;
+}
+
+export interface ProviderModelCatalog {
+  models: ModelInfo[];
+  maxTemperature: number;
+}
+
+export const MODEL_CATALOG: Record<string, ProviderModelCatalog> = {
+  openai: {
+    models: [
+      { id: 'gpt-4o', label: 'GPT-4o', maxOutputTokens: 16384, contextWindow: 128000, inputCostPerMillion: 2.5, outputCostPerMillion: 10 },
+      { id: 'gpt-4o-mini', label: 'GPT-4o mini', maxOutputTokens: 16384, contextWindow: 128000, inputCostPerMillion: 0.15, outputCostPerMillion: 0.6 },
+      { id: 'gpt-4.1', label: 'GPT-4.1', maxOutputTokens: 32768, contextWindow: 1047576, inputCostPerMillion: 2, outputCostPerMillion: 8 },
+      { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini', maxOutputTokens: 32768, contextWindow: 1047576, inputCostPerMillion: 0.4, outputCostPerMillion: 1.6 },
+    ],
+    maxTemperature: 2,
+  },
+  anthropic: {
+    models: [
+      { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4', maxOutputTokens: 64000, contextWindow: 200000, inputCostPerMillion: 3, outputCostPerMillion: 15 },
+      { id: 'claude-3-7-sonnet-20250219', label: 'Claude 3.7 Sonnet', maxOutputTokens: 64000, contextWindow: 200000, inputCostPerMillion: 3, outputCostPerMillion: 15 },
+      { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', maxOutputTokens: 8192, contextWindow: 200000, inputCostPerMillion: 0.8, outputCostPerMillion: 4 },
+    ],
+    maxTemperature: 1,
+  },
+  deepseek: {
+    models: [
+      { id: 'deepseek-chat', label: 'DeepSeek Chat', maxOutputTokens: 8192, contextWindow: 65536, inputCostPerMillion: 0.27, outputCostPerMillion: 1.1 },
+      { id: 'deepseek-reasoner', label: 'DeepSeek Reasoner', maxOutputTokens: 32768, contextWindow: 65536, inputCostPerMillion: 0.55, outputCostPerMillion: 2.19 },
+    ],
+    maxTemperature: 2,
+  },
+  perplexity: {
+    models: [
+      { id: 'sonar-pro', label: 'Sonar Pro', maxOutputTokens: 8000, contextWindow: 200000, inputCostPerMillion: 3, outputCostPerMillion: 15 },
+      { id: 'sonar', label: 'Sonar', maxOutputTokens: 8000, contextWindow: 128000, inputCostPerMillion: 1, outputCostPerMillion: 1 },
+    ],
+    maxTemperature: 2,
+  },
+  mock: {
+    models: [
+      { id: 'mock', label: 'Mock', maxOutputTokens: 100000, contextWindow: 1000000, inputCostPerMillion: 0, outputCostPerMillion: 0 },
+    ],
+    maxTemperature: 2,
+  },
+  // 'custom' is deliberately absent: a self-hosted endpoint serves whatever
+  // model it was started with, so any model name is accepted for it.
+};
+
+export function getModelCatalog(provider: string): ProviderModelCatalog | undefined {
+  return MODEL_CATALOG[provider];
+}
+
+// Finds a model by id, also matching dated snapshots such as
+// "gpt-4o-2024-08-06" to the longest catalog id they start with
+export function findModelInfo(provider: string, model: string): ModelInfo | undefined {
+  const models = getModelCatalog(provider)?.models ?? [];
+  return models.find(m => m.id === model) ??
+    models
+      .filter(m => model.startsWith(m.id))
+      .sort((a, b) => b.id.length - a.id.length)[0];
+}
+
+export interface GenerationSettingsIssue {
+  field: 'model' | 'temperature' | 'maxTokens';
+  message: string;
+}
+
+// Returns the first problem with the settings for this provider, or null if
+// they are fine
+export function checkGenerationSettings(
+  provider: string,
+  settings: { model?: string; temperature?: number; maxTokens?: number }
+): GenerationSettingsIssue | null {
+  const catalog = getModelCatalog(provider);
+  if (!catalog) return null;
+
+  if (settings.temperature !== undefined && settings.temperature > catalog.maxTemperature) {
+    return { field: 'temperature', message: `Temperature for ${provider} must be at most ${catalog.maxTemperature}` };
+  }
+
+  const model = settings.model
+    ? catalog.models.find(m => m.id === settings.model)
+    : catalog.models[0];
+  if (!model) {
+    return {
+      field: 'model',
+      message: `Model ${settings.model} is not available for ${provider}. Choose one of: ${catalog.models.map(m => m.id).join(', ')}`
+    };
+  }
+
+  if (settings.maxTokens !== undefined && settings.maxTokens > model.maxOutputTokens) {
+    return { field: 'maxTokens', message: `Max tokens for ${model.id} must be at most ${model.maxOutputTokens}` };
+  }
+
+  return null;
+}
@@ -0,0 +1,115 @@
+// Preset JSON Schemas for structured output from /api/process-text
+// (outputSchema). Kept to the keywords every provider's structured output
+// support understands.
+
+export interface OutputSchemaPreset {
+  id: string;
+  title: string;
+  description: string;
+  // Sent as the default instructions when the user hasn't written any
+  instructions: string;
+  schema: Record<string, unknown>;
+}
+
+const outlineNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    children: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          summary: { type: 'string' },
+          children: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                summary: { type: 'string' },
+              },
+              required: ['title'],
+            },
+          },
+        },
+        required: ['title', 'children'],
+      },
+    },
+  },
+  required: ['title', 'children'],
+};
+
+export const OUTPUT_SCHEMA_PRESETS: OutputSchemaPreset[] = [
+  {
+    id: 'definitions',
+    title: 'Definitions',
+    description: 'Terms the text defines or relies on, each with its definition',
+    instructions: 'Extract every term the text defines or relies on, with a one-sentence definition in the sense the text uses it.',
+    schema: {
+      type: 'object',
+      title: 'definitions',
+      properties: {
+        definitions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              term: { type: 'string' },
+              definition: { type: 'string' },
+              quote: { type: 'string', description: 'Where the text defines or uses the term, quoted exactly' },
+            },
+            required: ['term', 'definition'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['definitions'],
+      additionalProperties: false,
+    },
+  },
+  {
+    id: 'outline',
+    title: 'Outline tree',
+    description: 'Sections and subsections, up to three levels deep',
+    instructions: 'Outline the structure of the text as a tree of sections, each with a short title and a one-sentence summary.',
+    schema: {
+      type: 'object',
+      title: 'outline',
+      properties: {
+        outline: outlineNode,
+      },
+      required: ['outline'],
+      additionalProperties: false,
+    },
+  },
+  {
+    id: 'questions',
+    title: 'Question list',
+    description: 'Study questions with answers taken from the text',
+    instructions: 'Write study questions that test understanding of the text, each with its answer and a difficulty rating.',
+    schema: {
+      type: 'object',
+      title: 'questions',
+      properties: {
+        questions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              question: { type: 'string' },
+              answer: { type: 'string' },
+              difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+            },
+            required: ['question', 'answer', 'difficulty'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['questions'],
+      additionalProperties: false,
+    },
+  },
+];
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, jsonb, timestamp, doublePrecision, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { checkGenerationSettings } from "./models";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -15,8 +16,24 @@ export const documents = pgTable("documents", {
   content: text("content").notNull(),
   wordCount: integer("word_count").notNull(),
   aiScore: integer("ai_score"),
+  // Where the document came from: an uploaded file, an output saved from
+  // the editor, or text typed or pasted into the library
+  source: text("source").$type<DocumentSource>().notNull().default("upload"),
   createdAt: timestamp("created_at").default(sql`now()`),
-});
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+}, (table) => ({
+  // For full-text search; queries must use the same expression to hit it
+  contentSearch: index("documents_content_search").using("gin", sql`to_tsvector('english', ${table.content})`),
+}));
+
+export const documentSources = ["upload", "output", "manual"] as const;
+export type DocumentSource = typeof documentSources[number];
+
+export const jobModes = ["rewrite", "process"] as const;
+export type JobMode = typeof jobModes[number];
+
+export const jobStatuses = ["queued", "processing", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
 
 export const rewriteJobs = pgTable("rewrite_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -32,10 +49,99 @@ export const rewriteJobs = pgTable("rewrite_jobs", {
   outputText: text("output_text"),
   inputAiScore: integer("input_ai_score"),
   outputAiScore: integer("output_ai_score"),
-  status: text("status").notNull().default("pending"),
+  // queued | processing | completed | failed | cancelled
+  status: text("status").notNull().default("queued"),
+  // What the background worker does with the job: a GPT Bypass rewrite or a
+  // process-text run
+  mode: text("mode").$type<JobMode>().notNull().default("rewrite"),
+  // The validated request the worker runs with, apart from the input text
+  options: jsonb("options").$type<Record<string, unknown>>(),
+  totalChunks: integer("total_chunks"),
+  completedChunks: integer("completed_chunks").notNull().default(0),
+  // Why the job failed; on a completed job, the sections that were left out
+  error: text("error"),
+  // Providers that answered, in order; more than one when a fallback kicked in
+  providers: jsonb("providers").$type<string[]>(),
+  // Version of each prompt template used to produce the output, e.g. { rewrite: "v1" }
+  promptVersions: jsonb("prompt_versions").$type<Record<string, string>>(),
+  // The browser that submitted the job, so its LLM calls are accounted to it
+  clientId: varchar("client_id"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+}, (table) => ({
+  // Job listings page through jobs newest first
+  createdAtId: index("rewrite_jobs_created_at_id").on(table.createdAt, table.id),
+  // For full-text search; queries must use the same expressions to hit them
+  inputSearch: index("rewrite_jobs_input_search").using("gin", sql`to_tsvector('english', ${table.inputText})`),
+  outputSearch: index("rewrite_jobs_output_search").using("gin", sql`to_tsvector('english', coalesce(${table.outputText}, ''))`),
+}));
+
+// One row per pass of a rewrite job. A re-rewrite feeds the job's output back
+// in as the next pass's input, so each revision keeps the text it started
+// from and what it produced; a resumed pass updates its own revision.
+export const jobRevisions = pgTable("job_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => rewriteJobs.id, { onDelete: "cascade" }),
+  // 1 for the first pass
+  revision: integer("revision").notNull(),
+  inputText: text("input_text").notNull(),
+  outputText: text("output_text").notNull(),
+  styleText: text("style_text"),
+  selectedPresets: jsonb("selected_presets").$type<string[]>(),
+  customInstructions: text("custom_instructions"),
+  // The provider asked for, and those that answered
+  provider: text("provider").notNull(),
+  providers: jsonb("providers").$type<string[]>(),
+  promptVersions: jsonb("prompt_versions").$type<Record<string, string>>(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  jobRevision: uniqueIndex("job_revisions_job_revision").on(table.jobId, table.revision),
+}));
+
+// One row per LLM API call. jobId links calls made for a GPT Bypass rewrite
+// job; requestId groups the calls made while serving one HTTP request.
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").references(() => rewriteJobs.id, { onDelete: "set null" }),
+  requestId: varchar("request_id"),
+  // The browser the call was made for (see server/llm/usage.ts); there are
+  // no user accounts
+  clientId: varchar("client_id"),
+  operation: text("operation"),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  // True when the API didn't report usage and the tokens were counted locally
+  tokensEstimated: boolean("tokens_estimated").notNull().default(false),
+  // USD, from the price list in shared/models.ts; null when the model has no known price
+  estimatedCost: doublePrecision("estimated_cost"),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
+// Cached LLM completions, keyed by a hash of the provider and the full
+// request (model, prompt and sampling params). Only used when LLM_CACHE=database.
+export const llmCache = pgTable("llm_cache", {
+  key: varchar("key").primaryKey(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  response: text("response").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Prompt template versions saved from the API. They sit alongside the files in
+// prompts/; a stored version wins over a file with the same name and version.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  version: integer("version").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  nameVersion: uniqueIndex("prompt_templates_name_version").on(table.name, table.version),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -51,12 +157,44 @@ export const insertRewriteJobSchema = createInsertSchema(rewriteJobs).omit({
   createdAt: true,
 });
 
+export const insertJobRevisionSchema = createInsertSchema(jobRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLlmCacheEntrySchema = createInsertSchema(llmCache).omit({
+  createdAt: true,
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Document = typeof documents.$inferSelect;
 export type RewriteJob = typeof rewriteJobs.$inferSelect;
-export type InsertDocument = z.infer<typeof insertDocumentSchema>;
-export type InsertRewriteJob = z.infer<typeof insertRewriteJobSchema>;
+// From the table rather than the zod schema, which loses the source type
+export type InsertDocument = typeof documents.$inferInsert;
+// From the table rather than the zod schema, which loses the jsonb and mode types
+export type InsertRewriteJob = typeof rewriteJobs.$inferInsert;
+export type JobRevision = typeof jobRevisions.$inferSelect;
+// From the table rather than the zod schema, which loses the jsonb array types
+export type InsertJobRevision = typeof jobRevisions.$inferInsert;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmCacheEntry = typeof llmCache.$inferSelect;
+export type InsertLlmCacheEntry = z.infer<typeof insertLlmCacheEntrySchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+
+export type ChunkStatus = "pending" | "completed" | "failed";
 
 export interface TextChunk {
   id: string;
@@ -64,6 +202,12 @@ export interface TextChunk {
   startWord: number;
   endWord: number;
   aiScore?: number;
+  // Checkpoint of a rewrite job's chunk, saved as soon as the chunk is done
+  status?: ChunkStatus;
+  output?: string;
+  // The provider that rewrote it
+  provider?: string;
+  error?: string;
 }
 
 export interface InstructionPreset {
@@ -82,9 +226,8 @@ export interface WritingSample {
   category: string;
 }
 
-export interface AIProviderConfig {
-  provider: 'openai' | 'anthropic' | 'deepseek' | 'perplexity';
-  model?: string;
+export interface AIProviderConfig extends GenerationSettings {
+  provider: string;
 }
 
 export interface RewriteRequest {
@@ -106,21 +249,165 @@ export interface RewriteResponse {
 }
 
 // API schemas for existing functionality
+
+// Provider ids are resolved against the server-side LLM provider registry,
+// so new providers don't need a schema change
+export const llmProviderSchema = z.string().min(1, "LLM provider is required");
+
+// Providers to try, in order, when the requested one fails. Overrides the
+// server's LLM_FALLBACK_PROVIDERS; an empty list turns fallback off.
+export const fallbackProvidersSchema = z.array(llmProviderSchema).optional();
+
+// Skips the LLM response cache for this request (the answer is still cached)
+export const noCacheSchema = z.boolean().optional().default(false);
+
+// Optional per-request model and sampling overrides. Omitted fields fall back
+// to the provider's defaults.
+export const generationSettingsSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).optional(),
+});
+
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
+// Checks the generation settings against the model catalog of the provider
+// named by providerField. Applied at parse time so the base schemas stay
+// extendable.
+export function refineGenerationSettings(providerField: string) {
+  return (data: GenerationSettings & Record<string, unknown>, ctx: z.RefinementCtx) => {
+    const provider = data[providerField];
+    if (typeof provider !== "string") return;
+    const issue = checkGenerationSettings(provider, data);
+    if (issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: [issue.field] });
+    }
+  };
+}
+
+// Keywords whose values are data rather than subschemas
+const SCHEMA_DATA_KEYWORDS = ["const", "enum", "default", "examples"];
+
+// Where a JSON Schema has a `pattern` that isn't a valid regular expression,
+// e.g. "$.properties.code.pattern". Checked before a request is run, since
+// results are matched against the patterns only once the LLM has replied.
+export function findInvalidPatterns(schema: unknown, path: string = "$"): string[] {
+  if (Array.isArray(schema)) {
+    return schema.flatMap((item, index) => findInvalidPatterns(item, `${path}[${index}]`));
+  }
+  if (typeof schema !== "object" || schema === null) return [];
+  return Object.entries(schema).flatMap(([key, value]) => {
+    if (SCHEMA_DATA_KEYWORDS.includes(key)) return [];
+    if (key === "pattern" && typeof value === "string") {
+      try {
+        new RegExp(value, "u");
+        return [];
+      } catch {
+        return [`${path}.pattern`];
+      }
+    }
+    return findInvalidPatterns(value, `${path}.${key}`);
+  });
+}
+
+// A JSON Schema for structured output. Only checked for being an object
+// with valid patterns here; the server validates results against it.
+export const outputSchemaSchema = z.record(z.string(), z.unknown())
+  .refine(schema => Object.keys(schema).length > 0, "outputSchema must not be empty")
+  .superRefine((schema, ctx) => {
+    for (const location of findInvalidPatterns(schema)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${location} is not a valid regular expression` });
+    }
+  });
+
 export const processTextSchema = z.object({
   inputText: z.string().min(1, "Input text is required"),
   contentSource: z.string().optional().default(""),
   styleSource: z.string().optional().default(""),
   instructions: z.string().optional().default(""),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
+  llmProvider: llmProviderSchema,
+  fallbackProviders: fallbackProvidersSchema,
+  noCache: noCacheSchema,
   useContentSource: z.boolean().default(false),
   useStyleSource: z.boolean().default(false),
   reprocessOutput: z.boolean().default(false),
   examMode: z.boolean().optional().default(false),
+  // When set, the result is JSON matching this schema instead of free text
+  outputSchema: outputSchemaSchema.optional(),
+  outputSchemaName: z.string().max(64).optional(),
+}).merge(generationSettingsSchema);
+
+// One column of a side-by-side comparison: a provider and, optionally, one
+// of its models
+export const compareTargetSchema = z.object({
+  provider: llmProviderSchema,
+  model: z.string().min(1).optional(),
+});
+
+// The same input and instructions sent to two to four providers or models
+// at once. Temperature and max tokens apply to every target.
+export const compareRequestSchema = processTextSchema
+  .omit({ llmProvider: true, fallbackProviders: true, model: true, outputSchema: true, outputSchemaName: true })
+  .extend({
+    targets: z.array(compareTargetSchema)
+      .min(2, "Compare at least two providers or models")
+      .max(4, "Compare at most four providers or models"),
+  })
+  .superRefine((data, ctx) => {
+    data.targets.forEach((target, index) => {
+      const issue = checkGenerationSettings(target.provider, { ...data, model: target.model });
+      if (issue) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: ["targets", index, issue.field] });
+      }
+    });
+  });
+
+// A GPT Bypass rewrite. The text comes from inputText or an uploaded file;
+// reRewrite with a jobId rewrites that job's output again.
+export const rewriteRequestSchema = z.object({
+  inputText: z.string().optional(),
+  styleText: z.string().optional(),
+  provider: z.string().default('anthropic'),
+  fallbackProviders: fallbackProvidersSchema,
+  noCache: noCacheSchema,
+  reRewrite: z.boolean().default(false),
+  jobId: z.string().optional(),
+  // Recorded with the job and each revision
+  selectedPresets: z.array(z.string()).optional(),
+  customInstructions: z.string().optional()
+}).merge(generationSettingsSchema);
+
+// A request to run in the background, submitted to /api/jobs. The mode picks
+// which request it is; the rest is the same as the matching endpoint's body.
+export const jobRequestSchema = z.discriminatedUnion("mode", [
+  processTextSchema.extend({ mode: z.literal("process") }),
+  rewriteRequestSchema.extend({
+    mode: z.literal("rewrite"),
+    inputText: z.string().min(1, "Input text is required"),
+  }),
+]).superRefine((data, ctx) =>
+  refineGenerationSettings(data.mode === "rewrite" ? "provider" : "llmProvider")(data, ctx)
+);
+
+export type JobRequest = z.infer<typeof jobRequestSchema>;
+
+// What one chunk of a long document hands on to the next when rolling
+// context is on: a running summary of the document so far, the end of the
+// previous processed chunk and the terms defined so far
+export const rollingContextSchema = z.object({
+  summary: z.string().default(""),
+  previousTail: z.string().default(""),
+  terms: z.array(z.object({
+    term: z.string().min(1),
+    definition: z.string(),
+  })).default([]),
 });
 
+export type RollingContext = z.infer<typeof rollingContextSchema>;
+
 export const detectAiSchema = z.object({
   text: z.string().min(1, "Text is required"),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]).optional(),
+  llmProvider: llmProviderSchema.optional(),
 });
 
 export const searchOnlineSchema = z.object({
@@ -141,6 +428,20 @@ export const chatMessageSchema = z.object({
 export const chatRequestSchema = z.object({
   message: z.string().min(1, "Message is required"),
   conversationHistory: z.array(chatMessageSchema).default([]),
-  llmProvider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
+  llmProvider: llmProviderSchema,
+  fallbackProviders: fallbackProvidersSchema,
+  noCache: noCacheSchema,
   contextDocument: z.string().optional(),
+}).merge(generationSettingsSchema);
+
+// Saving a document to the library; the word count is worked out on the server
+export const createDocumentSchema = z.object({
+  filename: z.string().trim().min(1, "Filename is required"),
+  content: z.string(),
+  source: z.enum(documentSources).default("manual"),
+  aiScore: z.number().int().min(0).max(100).optional(),
 });
+
+export const updateDocumentSchema = createDocumentSchema
+  .pick({ filename: true, content: true, aiScore: true })
+  .partial();
@@ -0,0 +1,172 @@
+// Word-level differences between two texts, for comparing revisions of a
+// rewrite. Paragraphs are matched first, then the sentences of the ones that
+// changed, then the words of changed sentences, which keeps long documents
+// cheap to diff. Joining the `equal` and `delete` parts gives the old text
+// back, and joining the `equal` and `insert` parts gives the new one.
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+// Largest comparison table (tokens of one side times the other) worked out in
+// full; a larger change is shown as the old text replaced by the new
+const MAX_CELLS = 4_000_000;
+
+function push(parts: DiffPart[], op: DiffOp, text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    parts.push({ op, text });
+  }
+}
+
+// Paragraphs with the blank lines after them
+function splitParagraphs(text: string): string[] {
+  const pieces = text.split(/(\n[ \t]*\n\s*)/);
+  const paragraphs: string[] = [];
+  for (let i = 0; i < pieces.length; i += 2) {
+    const paragraph = pieces[i] + (pieces[i + 1] ?? '');
+    if (paragraph) paragraphs.push(paragraph);
+  }
+  return paragraphs;
+}
+
+// Sentences with the whitespace after them
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of Array.from(text.matchAll(/[.!?]['"’”)\]]*\s+/g))) {
+    const end = match.index! + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) sentences.push(text.slice(start));
+  return sentences;
+}
+
+// Words and the whitespace between them
+function splitWords(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+// Longest-common-subsequence alignment of two token lists, or null when it
+// would take more than MAX_CELLS
+function alignTokens(before: string[], after: string[]): DiffPart[] | null {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const n = endBefore - start;
+  const m = endAfter - start;
+  if (n * m > MAX_CELLS) return null;
+
+  // common[i * (m + 1) + j]: length of the common subsequence of the tokens
+  // from i and from j on
+  const width = m + 1;
+  const common = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      common[i * width + j] = before[start + i] === after[start + j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  push(parts, 'equal', before.slice(0, start).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[start + i] === after[start + j]) {
+      push(parts, 'equal', before[start + i]);
+      i++;
+      j++;
+    } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+      push(parts, 'delete', before[start + i]);
+      i++;
+    } else {
+      push(parts, 'insert', after[start + j]);
+      j++;
+    }
+  }
+  push(parts, 'delete', before.slice(start + i, endBefore).join(''));
+  push(parts, 'insert', after.slice(start + j, endAfter).join(''));
+  push(parts, 'equal', before.slice(endBefore).join(''));
+  return parts;
+}
+
+// Coarsest first
+const LEVELS = [splitParagraphs, splitSentences, splitWords];
+
+function diffAt(before: string, after: string, level: number, parts: DiffPart[]): void {
+  const aligned = alignTokens(LEVELS[level](before), LEVELS[level](after))
+    ?? [{ op: 'delete' as const, text: before }, { op: 'insert' as const, text: after }];
+
+  for (let k = 0; k < aligned.length; k++) {
+    const part = aligned[k];
+    const next = aligned[k + 1];
+    // A changed piece comes out as its old version followed by the new one
+    if (part.op === 'delete' && next?.op === 'insert' && level < LEVELS.length - 1) {
+      diffAt(part.text, next.text, level + 1, parts);
+      k++;
+    } else {
+      push(parts, part.op, part.text);
+    }
+  }
+}
+
+// Joins changes separated only by whitespace, so a reworded phrase reads as
+// one change instead of alternating words
+function mergeChanges(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    push(merged, 'delete', deleted);
+    push(merged, 'insert', inserted);
+    deleted = '';
+    inserted = '';
+  };
+
+  parts.forEach((part, k) => {
+    const between = k > 0 && k < parts.length - 1 && (deleted || inserted);
+    if (part.op === 'delete') {
+      deleted += part.text;
+    } else if (part.op === 'insert') {
+      inserted += part.text;
+    } else if (between && !part.text.trim() && parts[k + 1].op !== 'equal') {
+      deleted += part.text;
+      inserted += part.text;
+    } else {
+      flush();
+      push(merged, 'equal', part.text);
+    }
+  });
+  flush();
+  return merged;
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  const parts: DiffPart[] = [];
+  diffAt(before, after, 0, parts);
+  return mergeChanges(parts);
+}
+
+// Words added and removed, for a one-line summary of a diff
+export function countChangedWords(parts: DiffPart[]): { inserted: number; deleted: number } {
+  const words = (text: string) => text.match(/\S+/g)?.length ?? 0;
+  return {
+    inserted: parts.filter(part => part.op === 'insert').reduce((sum, part) => sum + words(part.text), 0),
+    deleted: parts.filter(part => part.op === 'delete').reduce((sum, part) => sum + words(part.text), 0),
+  };
+}